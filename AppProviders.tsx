@@ -8,7 +8,7 @@ import { LocationContext, LocationContextProvider } from "context/location"
 import { ThemeProvider } from "design-system/Context/ThemeContext"
 import { MediaContextProvider } from "design-system/Media"
 import { Analytics } from "lib/analytics/analytics"
-import Wallet from "lib/chain/wallet"
+import Wallet, { WalletSnapshot } from "lib/chain/wallet"
 import { GlobalStyle } from "styles/global"
 import { Theme } from "styles/styled"
 import store from "../store"
@@ -16,6 +16,7 @@ import { WalletProvider } from "./WalletProvider.react"
 
 type BasePageProps<DS> = {
   dehydratedState?: DS
+  walletSnapshot?: WalletSnapshot
 }
 
 type Props<DS, PP extends BasePageProps<DS>> = {
@@ -50,7 +51,12 @@ export const AppProviders = <DS, PP extends BasePageProps<DS>>({
                 <ThemeProvider theme={theme}>
                   <GlobalStyle />
                   <Analytics />
-                  <WalletProvider wallet={wallet}>{children}</WalletProvider>
+                  <WalletProvider
+                    wallet={wallet}
+                    snapshot={pageProps.walletSnapshot}
+                  >
+                    {children}
+                  </WalletProvider>
                 </ThemeProvider>
               </ReactReduxProvider>
             </Hydrate>
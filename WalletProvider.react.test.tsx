@@ -0,0 +1,78 @@
+import { act, render, screen } from "@testing-library/react"
+import React from "react"
+import { IS_TESTNET } from "../constants/testnet"
+import Wallet from "../lib/chain/wallet"
+import {
+  createTestAccount,
+  createWalletHarness,
+  WalletHarness,
+} from "../lib/chain/walletTestHarness"
+import { useWallet, WalletProvider } from "./WalletProvider.react"
+
+jest.mock("../lib/auth")
+jest.mock("../lib/analytics/events/walletEvents")
+
+const ADDRESS = "0x1111111111111111111111111111111111111111"
+
+// Ethereum then Polygon on mainnet, Rinkeby then Mumbai on testnet
+const [FROM_CHAIN, FROM_CHAIN_ID, TO_CHAIN, TO_CHAIN_ID] = IS_TESTNET
+  ? ["RINKEBY", "0x4", "MUMBAI", "0x13881"]
+  : ["ETHEREUM", "0x1", "MATIC", "0x89"]
+
+const ActiveChain = () => {
+  const { chain } = useWallet()
+  return <>{chain ?? "none"}</>
+}
+
+describe("WalletProvider", () => {
+  let harness: WalletHarness
+
+  beforeEach(() => {
+    jest
+      .spyOn(Wallet, "getAccount")
+      .mockImplementation(async address => createTestAccount({ address }))
+    harness = createWalletHarness({
+      accounts: [ADDRESS],
+      chainId: FROM_CHAIN_ID,
+    })
+  })
+
+  afterEach(() => {
+    harness.cleanup()
+    jest.restoreAllMocks()
+  })
+
+  it("follows the chain the user switches to in the wallet", async () => {
+    await harness.connect()
+    render(
+      <WalletProvider wallet={harness.wallet}>
+        <ActiveChain />
+      </WalletProvider>,
+    )
+    expect(await screen.findByText(FROM_CHAIN)).toBeTruthy()
+
+    act(() => harness.eip1193Provider.setChainId(TO_CHAIN_ID))
+
+    expect(await screen.findByText(TO_CHAIN)).toBeTruthy()
+  })
+
+  it("hydrates the wallet once, not on every navigation", async () => {
+    const snapshot = harness.wallet.dehydrate()
+    const { rerender } = render(
+      <WalletProvider snapshot={snapshot} wallet={harness.wallet}>
+        <ActiveChain />
+      </WalletProvider>,
+    )
+    await harness.connect()
+    expect(harness.wallet.address).toBe(ADDRESS)
+
+    // getServerSideProps pages pass a new snapshot on each client-side navigation
+    rerender(
+      <WalletProvider snapshot={{ ...snapshot }} wallet={harness.wallet}>
+        <ActiveChain />
+      </WalletProvider>,
+    )
+
+    expect(harness.wallet.address).toBe(ADDRESS)
+  })
+})
@@ -5,19 +5,23 @@ import React, {
   useEffect,
   useCallback,
   useContext,
+  useRef,
 } from "react"
-import Provider from "../lib/chain/provider"
-import Wallet from "../lib/chain/wallet"
+import Provider, { TransactionId } from "../lib/chain/provider"
+import { TransactionStatus } from "../lib/chain/transactionTracker"
+import Wallet, { WalletSnapshot } from "../lib/chain/wallet"
 import type { ChainIdentifier } from "../lib/graphql/__generated__/announcementBannerQuery.graphql"
 
 type WalletContext = {
   chain: ChainIdentifier | undefined
   provider: Provider | undefined
+  wallet: Wallet | undefined
 }
 
 const DEFAULT_CONTEXT: WalletContext = {
   chain: undefined,
   provider: undefined,
+  wallet: undefined,
 }
 
 const WalletContext = createContext(DEFAULT_CONTEXT)
@@ -25,29 +29,51 @@ const WalletContext = createContext(DEFAULT_CONTEXT)
 type Props = {
   children: React.ReactNode
   wallet: Wallet
+  /** Made by `Wallet.getSnapshot` on the server, so the first client render matches the server one */
+  snapshot?: WalletSnapshot
 }
 
-let activeChain: ChainIdentifier | undefined
-
-export const getActiveChain = () => {
-  return activeChain
+/**
+ * @deprecated Use `useWallet().chain`, or `wallet.chain` outside of React.
+ * Always undefined on the server, where each request has its own wallet.
+ */
+export const getActiveChain = (): ChainIdentifier | undefined => {
+  if (typeof window === "undefined") {
+    return undefined
+  }
+  return Wallet.wallet?.chain
 }
 
-export const WalletProvider = ({ children, wallet }: Props) => {
-  const [chain, setChain] = useState<ChainIdentifier>()
+export const WalletProvider = ({ children, wallet, snapshot }: Props) => {
+  // Copies react-query's Hydrate: the snapshot is applied while rendering, not in an effect,
+  // so children never render with the pre-hydration wallet. Only on the first render of each wallet,
+  // snapshots of later client-side navigations are older than the live wallet
+  const hydratedWallet = useRef<Wallet>()
+  if (hydratedWallet.current !== wallet) {
+    hydratedWallet.current = wallet
+    if (snapshot) {
+      wallet.hydrate(snapshot)
+    }
+  }
+
+  const [chain, setChain] = useState<ChainIdentifier | undefined>(wallet.chain)
   const [provider, setProvider] = useState<Provider>()
 
-  const value = useMemo(() => ({ chain, provider }), [chain, provider])
+  const value = useMemo(
+    () => ({ chain, provider, wallet }),
+    [chain, provider, wallet],
+  )
 
   useEffect(() => {
-    activeChain = chain
-  }, [chain])
+    wallet.setChain(chain)
+  }, [wallet, chain])
 
   const updateChain = useCallback(
     async (wallet: Wallet) => {
       const maybeProvider = await wallet.getProvider()
       const maybeChain = await maybeProvider?.getChain()
-      setChain(maybeChain)
+      // Keeps the remembered chain until a provider is loaded
+      setChain(maybeChain ?? wallet.chain)
       setProvider(maybeProvider)
     },
     [setChain],
@@ -74,3 +100,20 @@ export const WalletProvider = ({ children, wallet }: Props) => {
 }
 
 export const useWallet = () => useContext(WalletContext)
+
+export const useTransactionStatus = (
+  transactionId: TransactionId | undefined,
+): TransactionStatus | undefined => {
+  const { wallet } = useWallet()
+  const [status, setStatus] = useState<TransactionStatus>()
+
+  useEffect(() => {
+    const tracker = transactionId
+      ? wallet?.getTransactionTracker(transactionId)
+      : undefined
+    setStatus(tracker?.status)
+    return tracker?.onChange(({ status }) => setStatus(status))
+  }, [wallet, transactionId])
+
+  return status
+}
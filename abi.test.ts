@@ -0,0 +1,201 @@
+import { rawEncode } from "ethereumjs-abi"
+import { Buffer } from "safe-buffer"
+import { bn } from "../helpers/numberUtils"
+import { AbiParameter, decodeParameters, encodeParameters } from "./abi"
+import { InvalidParamsError } from "./walletErrors"
+
+const ADDRESS = "0x1111111111111111111111111111111111111111"
+
+const WORD = 64
+
+const toHex = (buffer: Buffer) => `0x${buffer.toString("hex")}`
+
+const word = (value: number | string) =>
+  bn(value).toString(16).padStart(WORD, "0")
+
+// BigNumbers are compared by value, the rest as decoded
+const normalize = (value: unknown): unknown =>
+  Array.isArray(value)
+    ? value.map(normalize)
+    : typeof value === "object" && value !== null
+    ? (value as { toString: (base: number) => string }).toString(10)
+    : value
+
+describe("encodeParameters", () => {
+  it("encodes static types like ethereumjs-abi", () => {
+    const types = ["uint256", "int8", "address", "bool", "bytes4"]
+    const values = [42, -3, ADDRESS, true, "0xdeadbeef"]
+
+    expect(
+      encodeParameters(
+        types.map(type => ({ type })),
+        values,
+      ),
+    ).toBe(
+      toHex(
+        rawEncode(types, [
+          42,
+          -3,
+          ADDRESS,
+          true,
+          Buffer.from("deadbeef", "hex"),
+        ]),
+      ),
+    )
+  })
+
+  it("encodes dynamic types and arrays like ethereumjs-abi", () => {
+    const types = ["string", "bytes", "uint256[]", "address[2]", "uint8[]"]
+    const values = ["hello", "0x0102", [1, 2, 3], [ADDRESS, ADDRESS], []]
+
+    expect(
+      encodeParameters(
+        types.map(type => ({ type })),
+        values,
+      ),
+    ).toBe(
+      toHex(
+        rawEncode(types, [
+          "hello",
+          Buffer.from("0102", "hex"),
+          [1, 2, 3],
+          [ADDRESS, ADDRESS],
+          [],
+        ]),
+      ),
+    )
+  })
+
+  it("pads empty bytesN to a word", () => {
+    expect(encodeParameters([{ type: "bytes32" }], ["0x"])).toBe(
+      `0x${"0".repeat(WORD)}`,
+    )
+  })
+
+  it("encodes static tuples in place, like their components", () => {
+    const tuple: AbiParameter = {
+      type: "tuple",
+      components: [
+        { name: "amount", type: "uint256" },
+        { name: "owner", type: "address" },
+      ],
+    }
+
+    expect(
+      encodeParameters([tuple, { type: "bool" }], [[5, ADDRESS], false]),
+    ).toBe(
+      toHex(rawEncode(["uint256", "address", "bool"], [5, ADDRESS, false])),
+    )
+  })
+
+  it("encodes dynamic tuples behind an offset", () => {
+    const tuple: AbiParameter = {
+      type: "tuple",
+      components: [
+        { name: "id", type: "uint256" },
+        { name: "name", type: "string" },
+      ],
+    }
+
+    expect(encodeParameters([tuple], [{ id: 7, name: "x" }])).toBe(
+      `0x${word(32)}${rawEncode(["uint256", "string"], [7, "x"]).toString(
+        "hex",
+      )}`,
+    )
+  })
+})
+
+describe("decodeParameters", () => {
+  it("decodes what it encodes", () => {
+    const parameters: ReadonlyArray<AbiParameter> = [
+      { type: "string" },
+      { type: "uint256[]" },
+      { type: "bytes" },
+      { type: "int256" },
+      {
+        type: "tuple",
+        components: [
+          { name: "a", type: "uint8" },
+          { name: "b", type: "string" },
+        ],
+      },
+      { type: "bytes32" },
+      { type: "bool" },
+      {
+        type: "tuple[2]",
+        components: [{ type: "address" }, { type: "bytes" }],
+      },
+      { type: "uint16[2][]" },
+      { type: "string[]" },
+    ]
+    const values = [
+      "hello",
+      ["1", "2", "3"],
+      "0xdeadbeef",
+      "-5",
+      ["7", "x"],
+      `0x${"ab".repeat(32)}`,
+      true,
+      [
+        [ADDRESS, "0x01"],
+        [ADDRESS, "0x"],
+      ],
+      [
+        ["1", "2"],
+        ["3", "4"],
+      ],
+      ["a", ""],
+    ]
+
+    expect(
+      normalize(
+        decodeParameters(parameters, encodeParameters(parameters, values)),
+      ),
+    ).toEqual(values)
+  })
+
+  it("decodes what ethereumjs-abi encodes", () => {
+    const types = ["address", "uint256[]", "string", "bytes4"]
+
+    expect(
+      normalize(
+        decodeParameters(
+          types.map(type => ({ type })),
+          toHex(
+            rawEncode(types, [ADDRESS, [10, 20], "opensea", Buffer.alloc(0)]),
+          ),
+        ),
+      ),
+    ).toEqual([ADDRESS, ["10", "20"], "opensea", "0x00000000"])
+  })
+
+  it("rejects data shorter than the parameters", () => {
+    expect(() =>
+      decodeParameters(
+        [{ type: "uint256" }, { type: "address" }],
+        `0x${word(1)}`,
+      ),
+    ).toThrow(InvalidParamsError)
+  })
+
+  it("rejects array lengths past the end of the data", () => {
+    expect(() =>
+      decodeParameters(
+        [{ type: "uint256[]" }],
+        `0x${word(32)}${word(2 ** 32)}${word(1)}`,
+      ),
+    ).toThrow(InvalidParamsError)
+  })
+
+  it("rejects byte lengths past the end of the data", () => {
+    expect(() =>
+      decodeParameters([{ type: "bytes" }], `0x${word(32)}${word(2 ** 32)}`),
+    ).toThrow(InvalidParamsError)
+  })
+
+  it("rejects offsets past the end of the data", () => {
+    expect(() =>
+      decodeParameters([{ type: "string" }], `0x${word(2 ** 40)}`),
+    ).toThrow(InvalidParamsError)
+  })
+})
@@ -0,0 +1,325 @@
+import { keccak256 } from "ethereumjs-util"
+import { Buffer } from "safe-buffer"
+import { BigNumber, bn } from "../helpers/numberUtils"
+import { InvalidParamsError } from "./walletErrors"
+
+export type AbiParameter = {
+  name?: string
+  type: string
+  components?: ReadonlyArray<AbiParameter>
+  indexed?: boolean
+}
+
+export type AbiFunction = {
+  type: "function"
+  name: string
+  inputs: ReadonlyArray<AbiParameter>
+  outputs?: ReadonlyArray<AbiParameter>
+  stateMutability?: "pure" | "view" | "nonpayable" | "payable"
+}
+
+export type AbiError = {
+  type: "error"
+  name: string
+  inputs: ReadonlyArray<AbiParameter>
+}
+
+export type AbiItem =
+  | AbiFunction
+  | AbiError
+  | {
+      type: "constructor" | "event" | "fallback" | "receive"
+      name?: string
+      inputs?: ReadonlyArray<AbiParameter>
+    }
+
+export type Abi = ReadonlyArray<AbiItem>
+
+// Tuples are decoded as arrays in the order of their components
+export type AbiValue = BigNumber | string | boolean | ReadonlyArray<AbiValue>
+
+// Length of a 32 bytes word in hex characters
+const WORD = 64
+
+const MAX_UINT256 = bn(2).pow(256)
+
+const strip0x = (hex: string) => (hex.startsWith("0x") ? hex.slice(2) : hex)
+
+const padLeft = (hex: string, length = WORD) => hex.padStart(length, "0")
+
+const padRight = (hex: string) =>
+  hex.padEnd(Math.ceil(hex.length / WORD) * WORD, "0")
+
+const parseArrayType = (type: string) => {
+  const match = type.match(/^(.*)\[(\d*)\]$/)
+  return match
+    ? {
+        baseType: match[1],
+        length: match[2] === "" ? undefined : Number(match[2]),
+      }
+    : undefined
+}
+
+const getCanonicalType = ({ type, components }: AbiParameter): string =>
+  type.startsWith("tuple")
+    ? `(${(components ?? []).map(getCanonicalType).join(",")})${type.slice(
+        "tuple".length,
+      )}`
+    : type
+
+export const formatSignature = ({
+  name,
+  inputs,
+}: {
+  name: string
+  inputs: ReadonlyArray<AbiParameter>
+}): string => `${name}(${inputs.map(getCanonicalType).join(",")})`
+
+/**
+ * @returns The 4 bytes selector of a function or error, i.e. `0xa9059cbb` for `transfer(address,uint256)`
+ */
+export const getSelector = (item: AbiFunction | AbiError): string =>
+  `0x${keccak256(Buffer.from(formatSignature(item), "utf8"))
+    .toString("hex")
+    .slice(0, 8)}`
+
+const isDynamic = (parameter: AbiParameter): boolean => {
+  const array = parseArrayType(parameter.type)
+  if (array) {
+    return (
+      array.length === undefined ||
+      isDynamic({ ...parameter, type: array.baseType })
+    )
+  }
+  if (parameter.type === "tuple") {
+    return (parameter.components ?? []).some(isDynamic)
+  }
+  return parameter.type === "string" || parameter.type === "bytes"
+}
+
+const getStaticSize = (parameter: AbiParameter): number => {
+  const array = parseArrayType(parameter.type)
+  if (array) {
+    return (
+      (array.length ?? 0) *
+      getStaticSize({ ...parameter, type: array.baseType })
+    )
+  }
+  if (parameter.type === "tuple") {
+    return (parameter.components ?? []).reduce(
+      (size, component) => size + getStaticSize(component),
+      0,
+    )
+  }
+  return WORD
+}
+
+const toTupleValues = (
+  parameter: AbiParameter,
+  value: unknown,
+): ReadonlyArray<unknown> =>
+  Array.isArray(value)
+    ? value
+    : (parameter.components ?? []).map(
+        ({ name }) => (value as Record<string, unknown>)[name ?? ""],
+      )
+
+const encodeBytes = (hex: string) =>
+  `${padLeft((hex.length / 2).toString(16))}${padRight(hex)}`
+
+const encodeValue = (parameter: AbiParameter, value: unknown): string => {
+  const { type } = parameter
+  const array = parseArrayType(type)
+  if (array) {
+    const items = value as ReadonlyArray<unknown>
+    const encodedItems = encodeTuple(
+      items.map(() => ({ ...parameter, type: array.baseType })),
+      items,
+    )
+    return array.length === undefined
+      ? `${padLeft(items.length.toString(16))}${encodedItems}`
+      : encodedItems
+  }
+  if (type === "tuple") {
+    return encodeTuple(
+      parameter.components ?? [],
+      toTupleValues(parameter, value),
+    )
+  }
+  if (type === "string") {
+    return encodeBytes(Buffer.from(value as string, "utf8").toString("hex"))
+  }
+  if (type === "bytes") {
+    return encodeBytes(strip0x(value as string))
+  }
+  if (type.startsWith("bytes")) {
+    // Always one word, even for an empty value
+    return strip0x(value as string).padEnd(WORD, "0")
+  }
+  if (type === "address") {
+    return padLeft(strip0x(value as string).toLowerCase())
+  }
+  if (type === "bool") {
+    return padLeft(value ? "1" : "0")
+  }
+  if (type.startsWith("uint") || type.startsWith("int")) {
+    const number = bn(value as BigNumber | number | string)
+    return padLeft(
+      (number.isNegative() ? MAX_UINT256.plus(number) : number).toString(16),
+    )
+  }
+  throw new Error(`Unsupported ABI type ${type}`)
+}
+
+const encodeTuple = (
+  parameters: ReadonlyArray<AbiParameter>,
+  values: ReadonlyArray<unknown>,
+): string => {
+  if (parameters.length !== values.length) {
+    throw new Error(
+      `Expected ${parameters.length} ABI values but got ${values.length}`,
+    )
+  }
+  const encoded = parameters.map((parameter, i) =>
+    encodeValue(parameter, values[i]),
+  )
+  const headLength = parameters.reduce(
+    (length, parameter) =>
+      length + (isDynamic(parameter) ? WORD : getStaticSize(parameter)),
+    0,
+  )
+  let tailLength = 0
+  const heads = parameters.map((parameter, i) => {
+    if (!isDynamic(parameter)) {
+      return encoded[i]
+    }
+    const offset = (headLength + tailLength) / 2
+    tailLength += encoded[i].length
+    return padLeft(offset.toString(16))
+  })
+  const tails = encoded.filter((_, i) => isDynamic(parameters[i]))
+  return `${heads.join("")}${tails.join("")}`
+}
+
+export const encodeParameters = (
+  parameters: ReadonlyArray<AbiParameter>,
+  values: ReadonlyArray<unknown>,
+): string => `0x${encodeTuple(parameters, values)}`
+
+export const encodeFunctionData = (
+  item: AbiFunction,
+  args: ReadonlyArray<unknown> = [],
+): string =>
+  `${getSelector(item)}${strip0x(encodeParameters(item.inputs, args))}`
+
+// Lengths and offsets come from the data, checked before allocating or slicing so crafted ones cannot exhaust memory
+const assertInData = (data: string, end: number) => {
+  if (!Number.isSafeInteger(end) || end > data.length) {
+    throw new InvalidParamsError("ABI data is too short")
+  }
+}
+
+const readWord = (data: string, position: number) => {
+  assertInData(data, position + WORD)
+  return data.slice(position, position + WORD)
+}
+
+const readLength = (data: string, position: number) =>
+  parseInt(readWord(data, position), 16)
+
+const decodeValue = (
+  parameter: AbiParameter,
+  data: string,
+  position: number,
+): AbiValue => {
+  const { type } = parameter
+  const array = parseArrayType(type)
+  if (array) {
+    const child = { ...parameter, type: array.baseType }
+    if (array.length !== undefined) {
+      return decodeTuple(Array(array.length).fill(child), data, position)
+    }
+    const length = readLength(data, position)
+    assertInData(
+      data,
+      position +
+        WORD +
+        length * (isDynamic(child) ? WORD : getStaticSize(child)),
+    )
+    return decodeTuple(Array(length).fill(child), data, position + WORD)
+  }
+  if (type === "tuple") {
+    return decodeTuple(parameter.components ?? [], data, position)
+  }
+  if (type === "string" || type === "bytes") {
+    const end = position + WORD + readLength(data, position) * 2
+    assertInData(data, end)
+    const hex = data.slice(position + WORD, end)
+    return type === "string"
+      ? Buffer.from(hex, "hex").toString("utf8")
+      : `0x${hex}`
+  }
+  const word = readWord(data, position)
+  if (type.startsWith("bytes")) {
+    return `0x${word.slice(0, Number(type.slice("bytes".length)) * 2)}`
+  }
+  if (type === "address") {
+    return `0x${word.slice(WORD - 40)}`
+  }
+  if (type === "bool") {
+    return !bn(`0x${word}`).isZero()
+  }
+  if (type.startsWith("uint")) {
+    return bn(`0x${word}`)
+  }
+  if (type.startsWith("int")) {
+    const number = bn(`0x${word}`)
+    return parseInt(word[0], 16) >= 8 ? number.minus(MAX_UINT256) : number
+  }
+  throw new Error(`Unsupported ABI type ${type}`)
+}
+
+const decodeTuple = (
+  parameters: ReadonlyArray<AbiParameter>,
+  data: string,
+  base: number,
+): AbiValue[] => {
+  let cursor = base
+  return parameters.map(parameter => {
+    if (isDynamic(parameter)) {
+      const offset = base + readLength(data, cursor) * 2
+      assertInData(data, offset)
+      const value = decodeValue(parameter, data, offset)
+      cursor += WORD
+      return value
+    }
+    const value = decodeValue(parameter, data, cursor)
+    cursor += getStaticSize(parameter)
+    return value
+  })
+}
+
+export const decodeParameters = (
+  parameters: ReadonlyArray<AbiParameter>,
+  data: string,
+): AbiValue[] => decodeTuple(parameters, strip0x(data), 0)
+
+export const decodeFunctionResult = (
+  item: AbiFunction,
+  data: string,
+): AbiValue[] => decodeParameters(item.outputs ?? [], data)
+
+/**
+ * @returns The function or error of the ABI matching the first 4 bytes of `data`
+ */
+export const findAbiItemBySelector = (
+  abi: Abi,
+  data: string,
+): AbiFunction | AbiError | undefined => {
+  const selector = data.slice(0, 10).toLowerCase()
+  return abi.find(
+    (item): item is AbiFunction | AbiError =>
+      (item.type === "function" || item.type === "error") &&
+      getSelector(item) === selector,
+  )
+}
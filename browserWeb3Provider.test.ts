@@ -0,0 +1,117 @@
+import { ChainData } from "../chain"
+import { UserRejectedRequestError } from "../walletErrors"
+import BrowserWeb3Provider from "./browserWeb3Provider"
+import MockEip1193Provider from "./mockEip1193Provider"
+
+jest.mock("lib/chain/chain", () => ({
+  ...jest.requireActual("lib/chain/chain"),
+  // Chain data is a Relay fragment in the app, the plain fields are enough here
+  readChainData: (chainData: unknown) => chainData,
+}))
+
+const ADDRESS = "0x1111111111111111111111111111111111111111"
+
+const POLYGON = { networkId: 137 } as unknown as ChainData
+
+describe("BrowserWeb3Provider.switchChain", () => {
+  let eip1193Provider: MockEip1193Provider
+  let provider: BrowserWeb3Provider
+
+  beforeEach(() => {
+    eip1193Provider = new MockEip1193Provider({
+      accounts: [ADDRESS],
+      chainId: "0x1",
+    })
+    provider = new BrowserWeb3Provider(eip1193Provider)
+  })
+
+  it("switches to a chain the wallet knows", async () => {
+    eip1193Provider = new MockEip1193Provider({
+      accounts: [ADDRESS],
+      chainId: "0x1",
+      knownChainIds: ["0x1", "0x89"],
+    })
+    provider = new BrowserWeb3Provider(eip1193Provider)
+
+    await provider.switchChain(POLYGON)
+
+    expect(eip1193Provider.getCalls("wallet_addEthereumChain")).toHaveLength(0)
+    expect(await provider.getChain()).toBe("MATIC")
+  })
+
+  it("adds the chain when the wallet does not know it (4902)", async () => {
+    await provider.switchChain(POLYGON)
+
+    expect(eip1193Provider.getCalls().map(({ method }) => method)).toEqual([
+      "wallet_switchEthereumChain",
+      "wallet_addEthereumChain",
+    ])
+    expect(
+      eip1193Provider.getCalls("wallet_addEthereumChain")[0].params[0],
+    ).toMatchObject({ chainId: "0x89", chainName: "Polygon" })
+    expect(await provider.getChain()).toBe("MATIC")
+  })
+
+  it("surfaces the user rejecting the switch (4001)", async () => {
+    eip1193Provider.rejectNext(
+      "wallet_switchEthereumChain",
+      UserRejectedRequestError.code,
+    )
+
+    await expect(provider.switchChain(POLYGON)).rejects.toBeInstanceOf(
+      UserRejectedRequestError,
+    )
+    expect(eip1193Provider.getCalls("wallet_addEthereumChain")).toHaveLength(0)
+    expect(await provider.getChain()).toBe("ETHEREUM")
+  })
+})
+
+describe("BrowserWeb3Provider.getName", () => {
+  const announce = (rdns: string) =>
+    new BrowserWeb3Provider(
+      new MockEip1193Provider({ accounts: [ADDRESS], chainId: "0x1" }),
+      { uuid: rdns, name: rdns, icon: "", rdns },
+    )
+
+  it("names announced wallets after their rdns registration", () => {
+    expect(announce("io.rabby").getName()).toBe("io.rabby")
+    expect(announce("com.coinbase.wallet").getName()).toBe(
+      "com.coinbase.wallet",
+    )
+    expect(announce("io.metamask").getName()).toBe("io.metamask")
+  })
+})
+
+describe("BrowserWeb3Provider on a chain the registry does not know", () => {
+  const UNKNOWN_CHAIN_ID = "0x270f"
+
+  let eip1193Provider: MockEip1193Provider
+  let provider: BrowserWeb3Provider
+
+  beforeEach(() => {
+    eip1193Provider = new MockEip1193Provider({
+      accounts: [ADDRESS],
+      chainId: "0x1",
+    })
+    provider = new BrowserWeb3Provider(eip1193Provider)
+  })
+
+  it("does not report authorized accounts as a disconnect", async () => {
+    const onAccountsChange = jest.fn()
+    provider.onAccountsChange(onAccountsChange)
+
+    eip1193Provider.setChainId(UNKNOWN_CHAIN_ID)
+    eip1193Provider.setAccounts([ADDRESS])
+    eip1193Provider.setAccounts([])
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    expect(onAccountsChange).toHaveBeenCalledTimes(1)
+    expect(onAccountsChange).toHaveBeenCalledWith([])
+  })
+
+  it("fails to restore the session instead of returning no accounts", async () => {
+    eip1193Provider.setChainId(UNKNOWN_CHAIN_ID)
+
+    await expect(provider.restoreSession()).rejects.toThrow(/unsupported chain/)
+  })
+})
@@ -2,6 +2,17 @@ import detectEthereumProvider from "@metamask/detect-provider"
 import { noop } from "lodash"
 import Web3 from "web3"
 import { WALLET_NAME } from "../../../constants"
+import type { ProviderId } from "../providerRegistry"
+import {
+  Eip1193Provider,
+  LegacyWeb3Provider,
+  toEip1193Provider,
+} from "./eip1193"
+import {
+  discoverInjectedProviders,
+  Eip6963ProviderInfo,
+  findInjectedProvider,
+} from "./eip6963"
 import Web3EvmProvider from "./web3EvmProvider"
 
 declare global {
@@ -11,33 +22,55 @@ declare global {
 }
 
 export default class BrowserWeb3Provider extends Web3EvmProvider {
-  web3: Web3
+  eip1193Provider: Eip1193Provider
+  info?: Eip6963ProviderInfo
 
-  constructor(web3: Web3) {
+  constructor(eip1193Provider: Eip1193Provider, info?: Eip6963ProviderInfo) {
     super()
-    this.web3 = web3
+    this.eip1193Provider = eip1193Provider
+    this.info = info
+  }
+
+  /**
+   * Lists every injected wallet announcing itself through EIP-6963, including the ones that lost the race for `window.ethereum`.
+   */
+  public static discover = async (): Promise<
+    ReadonlyArray<Eip6963ProviderInfo>
+  > => (await discoverInjectedProviders()).map(({ info }) => info)
+
+  public static initByRdns = async (rdns: string) => {
+    const detail = await findInjectedProvider(rdns)
+    if (!detail) {
+      throw new Error(`Could not find injected wallet ${rdns}`)
+    }
+    return new BrowserWeb3Provider(detail.provider, detail.info)
   }
 
   public static init = async () => {
     const provider = (await detectEthereumProvider()) as
-      | Web3.Provider
+      | Eip1193Provider
+      | LegacyWeb3Provider
       | undefined
 
     if (provider) {
-      return new BrowserWeb3Provider(new Web3(provider))
+      return new BrowserWeb3Provider(toEip1193Provider(provider))
     }
 
     const { web3 } = window
     if (web3) {
-      return new BrowserWeb3Provider(new Web3(web3.currentProvider))
+      return new BrowserWeb3Provider(toEip1193Provider(web3.currentProvider))
     }
     throw new Error("Could not find web3")
   }
 
   disconnect = noop
 
-  getName = () => {
-    const web3Provider = this.getWeb3Provider() as {
+  getName = (): ProviderId => {
+    if (this.info) {
+      // Announced wallets are registered by rdns, flags are commonly spoofed (i.e. isMetaMask)
+      return this.info.rdns
+    }
+    const web3Provider = this.eip1193Provider as {
       isDapper?: boolean
       isMetaMask?: boolean
       isTrust?: boolean
@@ -0,0 +1,209 @@
+import {
+  ChainIdentifier,
+  ETHEREUM_MAINNET,
+  ETHEREUM_RINKEBY,
+} from "../../constants"
+import { CHAIN_IDENTIFIER_BY_NETWORK_ID } from "./networks/ethereum"
+import {
+  createFallbackProvider,
+  createHttpProvider,
+  Eip1193Provider,
+} from "./providers/eip1193"
+
+/** CAIP-2 chain id, i.e. eip155:1 */
+export type CaipChainId = `eip155:${number}`
+
+export type NativeCurrency = {
+  name: string
+  symbol: string
+  decimals: number
+}
+
+export type ChainConfig = {
+  identifier: ChainIdentifier
+  /** EIP-155 chain id */
+  chainId: number
+  caipChainId: CaipChainId
+  displayName: string
+  /** Ordered by preference, the following ones are used as fallbacks. Empty for chains only known by id */
+  rpcUrls: ReadonlyArray<string>
+  blockExplorerUrl?: string
+  /** Undefined for chains only known by id, rather than guessed */
+  nativeCurrency?: NativeCurrency
+  /** Undefined for chains only known by id, rather than guessed */
+  isTestnet?: boolean
+  /** Names third party providers use for this chain */
+  aliases?: {
+    portis?: string
+  }
+}
+
+export type ChainRegistration = Omit<
+  ChainConfig,
+  "caipChainId" | "nativeCurrency" | "isTestnet"
+> &
+  Required<Pick<ChainConfig, "nativeCurrency" | "isTestnet">>
+
+const ETHER: NativeCurrency = { name: "Ether", symbol: "ETH", decimals: 18 }
+const MATIC: NativeCurrency = { name: "Matic", symbol: "MATIC", decimals: 18 }
+const KLAY: NativeCurrency = { name: "Klay", symbol: "KLAY", decimals: 18 }
+const AVAX: NativeCurrency = { name: "Avax", symbol: "AVAX", decimals: 18 }
+
+const BUILT_IN_CHAINS: ReadonlyArray<ChainRegistration> = [
+  {
+    identifier: "ETHEREUM",
+    chainId: 1,
+    displayName: "Ethereum",
+    rpcUrls: [ETHEREUM_MAINNET, "https://cloudflare-eth.com"],
+    blockExplorerUrl: "https://etherscan.io",
+    nativeCurrency: ETHER,
+    isTestnet: false,
+    aliases: { portis: "mainnet" },
+  },
+  {
+    identifier: "RINKEBY",
+    chainId: 4,
+    displayName: "Rinkeby",
+    rpcUrls: [ETHEREUM_RINKEBY, "https://rpc.ankr.com/eth_rinkeby"],
+    blockExplorerUrl: "https://rinkeby.etherscan.io",
+    nativeCurrency: ETHER,
+    isTestnet: true,
+    aliases: { portis: "rinkeby" },
+  },
+  {
+    identifier: "MATIC",
+    chainId: 137,
+    displayName: "Polygon",
+    rpcUrls: ["https://polygon-rpc.com", "https://rpc-mainnet.maticvigil.com"],
+    blockExplorerUrl: "https://polygonscan.com",
+    nativeCurrency: MATIC,
+    isTestnet: false,
+    aliases: { portis: "matic" },
+  },
+  {
+    identifier: "MUMBAI",
+    chainId: 80001,
+    displayName: "Mumbai",
+    rpcUrls: ["https://rpc-mumbai.maticvigil.com"],
+    blockExplorerUrl: "https://mumbai.polygonscan.com",
+    nativeCurrency: MATIC,
+    isTestnet: true,
+    aliases: { portis: "maticMumbai" },
+  },
+  {
+    identifier: "KLAYTN",
+    chainId: 8217,
+    displayName: "Klaytn",
+    rpcUrls: ["https://public-node-api.klaytnapi.com/v1/cypress"],
+    blockExplorerUrl: "https://scope.klaytn.com",
+    nativeCurrency: KLAY,
+    isTestnet: false,
+  },
+  {
+    identifier: "BAOBAB",
+    chainId: 1001,
+    displayName: "Baobab",
+    rpcUrls: ["https://api.baobab.klaytn.net:8651"],
+    blockExplorerUrl: "https://baobab.scope.klaytn.com",
+    nativeCurrency: KLAY,
+    isTestnet: true,
+  },
+]
+
+type ChainMetadata = Omit<ChainRegistration, "identifier" | "chainId">
+
+// Used for the chains of `CHAIN_IDENTIFIER_BY_NETWORK_ID` without a built-in config, by chain id
+const KNOWN_CHAIN_METADATA: Record<number, ChainMetadata> = {
+  5: {
+    displayName: "Goerli",
+    rpcUrls: ["https://rpc.ankr.com/eth_goerli"],
+    blockExplorerUrl: "https://goerli.etherscan.io",
+    nativeCurrency: ETHER,
+    isTestnet: true,
+  },
+  43114: {
+    displayName: "Avalanche",
+    rpcUrls: ["https://api.avax.network/ext/bc/C/rpc"],
+    blockExplorerUrl: "https://snowtrace.io",
+    nativeCurrency: AVAX,
+    isTestnet: false,
+  },
+  43113: {
+    displayName: "Fuji",
+    rpcUrls: ["https://api.avax-test.network/ext/bc/C/rpc"],
+    blockExplorerUrl: "https://testnet.snowtrace.io",
+    nativeCurrency: AVAX,
+    isTestnet: true,
+  },
+}
+
+export const toCaipChainId = (chainId: number): CaipChainId =>
+  `eip155:${chainId}`
+
+const chainsByIdentifier: Map<ChainIdentifier, ChainConfig> = new Map()
+
+/**
+ * Adds a chain, or replaces the one with the same identifier.
+ * Meant to be called at startup, i.e. for chains enabled by a feature flag.
+ */
+export const registerChain = (config: ChainRegistration): ChainConfig => {
+  if (!config.rpcUrls.length) {
+    throw new Error(`Chain ${config.identifier} needs at least one RPC url`)
+  }
+  const chainConfig = { ...config, caipChainId: toCaipChainId(config.chainId) }
+  chainsByIdentifier.set(config.identifier, chainConfig)
+  return chainConfig
+}
+
+BUILT_IN_CHAINS.forEach(registerChain)
+
+// Every chain the app resolves by id stays resolvable, i.e. by `getChain` and `onChainChange`
+Object.entries(CHAIN_IDENTIFIER_BY_NETWORK_ID).forEach(
+  ([networkId, identifier]) => {
+    if (chainsByIdentifier.has(identifier)) {
+      return
+    }
+    const chainId = Number(networkId)
+    chainsByIdentifier.set(identifier, {
+      identifier,
+      chainId,
+      caipChainId: toCaipChainId(chainId),
+      ...(KNOWN_CHAIN_METADATA[chainId] ?? {
+        displayName: identifier,
+        rpcUrls: [],
+      }),
+    })
+  },
+)
+
+export const getChainConfigs = (): ReadonlyArray<ChainConfig> =>
+  Array.from(chainsByIdentifier.values())
+
+export const getChainConfig = (
+  identifier: ChainIdentifier,
+): ChainConfig | undefined => chainsByIdentifier.get(identifier)
+
+/**
+ * @param chainId As a number, a hex quantity (i.e. from eth_chainId) or a CAIP-2 id
+ */
+export const getChainConfigByChainId = (
+  chainId: number | string,
+): ChainConfig | undefined => {
+  const id =
+    typeof chainId === "string" && chainId.startsWith("eip155:")
+      ? Number(chainId.slice("eip155:".length))
+      : Number(chainId)
+  return getChainConfigs().find(config => config.chainId === id)
+}
+
+/**
+ * Read-only provider for the chain, falling back to the next RPC url when one is unreachable.
+ */
+export const getRpcProvider = (
+  identifier: ChainIdentifier,
+): Eip1193Provider | undefined => {
+  const config = getChainConfig(identifier)
+  return config?.rpcUrls.length
+    ? createFallbackProvider(config.rpcUrls.map(createHttpProvider))
+    : undefined
+}
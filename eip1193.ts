@@ -0,0 +1,169 @@
+import { isUndefined, omitBy } from "lodash"
+import Web3 from "web3"
+import { BigNumber, bn } from "lib/helpers/numberUtils"
+import JSONRPC from "../jsonrpc"
+import { Transaction } from "../provider"
+
+export type ProviderEvent =
+  | "accountsChanged"
+  | "chainChanged"
+  | "connect"
+  | "disconnect"
+
+export interface RequestArguments {
+  method: string
+  params?: readonly unknown[] | object
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Listener = (...args: any[]) => unknown
+
+/**
+ * https://eips.ethereum.org/EIPS/eip-1193
+ */
+export interface Eip1193Provider {
+  request<T = unknown>(args: RequestArguments): Promise<T>
+  on?: (event: ProviderEvent, listener: Listener) => unknown
+  removeListener?: (event: ProviderEvent, listener: Listener) => unknown
+  // Some older injected providers only implement `off`
+  off?: (event: ProviderEvent, listener: Listener) => unknown
+}
+
+export type LegacyWeb3Provider = Web3.Provider & {
+  on?: (event: ProviderEvent, listener: Listener) => unknown
+  off?: (event: ProviderEvent, listener: Listener) => unknown
+  removeListener?: (event: ProviderEvent, listener: Listener) => unknown
+}
+
+export const isEip1193Provider = (
+  provider: unknown,
+): provider is Eip1193Provider =>
+  typeof (provider as Partial<Eip1193Provider> | undefined)?.request ===
+  "function"
+
+/**
+ * Legacy adapter for web3 0.x providers that only implement `sendAsync`.
+ * Prefer passing EIP-1193 providers directly, this only exists for wallets that predate `request`.
+ */
+export const fromLegacyProvider = (
+  provider: LegacyWeb3Provider,
+): Eip1193Provider => ({
+  request: <T>({ method, params = [] }: RequestArguments) =>
+    JSONRPC.request(
+      provider.sendAsync.bind(provider),
+      method,
+      params,
+    ) as Promise<T>,
+  on: provider.on?.bind(provider),
+  removeListener: (provider.removeListener ?? provider.off)?.bind(provider),
+})
+
+export const toEip1193Provider = (
+  provider: Eip1193Provider | LegacyWeb3Provider,
+): Eip1193Provider =>
+  isEip1193Provider(provider) ? provider : fromLegacyProvider(provider)
+
+export const toHexQuantity = (value: number | BigNumber): string =>
+  `0x${value.toString(16)}`
+
+export const fromHexQuantity = (quantity: string): BigNumber => bn(quantity)
+
+export type RpcTransaction = {
+  from?: string
+  to?: string
+  value?: string
+  data?: string
+  gas?: string
+  nonce?: string
+  chainId?: string
+  type?: string
+  gasPrice?: string
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+}
+
+export const toRpcTransaction = ({
+  source,
+  destination,
+  value,
+  data,
+  gas,
+  nonce,
+  chainId,
+  gasPrice,
+  maxFeePerGas,
+  maxPriorityFeePerGas,
+}: Transaction): RpcTransaction => {
+  const isEip1559 =
+    maxFeePerGas !== undefined || maxPriorityFeePerGas !== undefined
+  const quantity = (v: number | BigNumber | undefined) =>
+    v === undefined ? undefined : toHexQuantity(v)
+  return omitBy(
+    {
+      from: source,
+      to: destination,
+      value: quantity(value),
+      data,
+      gas: quantity(gas),
+      nonce: quantity(nonce),
+      chainId: quantity(chainId),
+      type: isEip1559 ? "0x2" : gasPrice !== undefined ? "0x0" : undefined,
+      gasPrice: quantity(gasPrice),
+      maxFeePerGas: quantity(maxFeePerGas),
+      maxPriorityFeePerGas: quantity(maxPriorityFeePerGas),
+    },
+    isUndefined,
+  )
+}
+
+let nextJsonRpcId = 1
+
+/**
+ * Read-only transport to a JSON-RPC node over HTTP, i.e. for calls a remote signer does not serve.
+ */
+export const createHttpProvider = (url: string): Eip1193Provider => ({
+  request: async <T>({ method, params = [] }: RequestArguments) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: nextJsonRpcId++,
+        method,
+        params,
+      }),
+    })
+    if (!response.ok) {
+      // No code, so fallback providers move on to the next node
+      throw new Error(`${url} responded with status ${response.status}`)
+    }
+    const { result, error } = await response.json()
+    if (error) {
+      throw error
+    }
+    return result as T
+  },
+})
+
+/**
+ * Sends each request to the first provider that is reachable.
+ * JSON-RPC errors (the ones with a code) are returned as is, only transport failures move on to the next provider.
+ */
+export const createFallbackProvider = (
+  providers: ReadonlyArray<Eip1193Provider>,
+): Eip1193Provider => ({
+  request: async <T>(args: RequestArguments) => {
+    let lastError: unknown
+    for (const provider of providers) {
+      try {
+        return await provider.request<T>(args)
+      } catch (error) {
+        if (typeof (error as { code?: unknown } | null)?.code === "number") {
+          throw error
+        }
+        lastError = error
+      }
+    }
+    throw lastError
+  },
+})
@@ -0,0 +1,69 @@
+import { Eip1193Provider } from "./eip1193"
+
+/**
+ * https://eips.ethereum.org/EIPS/eip-6963#provider-info
+ */
+export type Eip6963ProviderInfo = {
+  uuid: string
+  name: string
+  /** Data URI of the wallet icon */
+  icon: string
+  /** Reverse DNS identifier of the wallet, i.e. io.metamask. Stable across page loads unlike `uuid` */
+  rdns: string
+}
+
+export type Eip6963ProviderDetail = {
+  info: Eip6963ProviderInfo
+  provider: Eip1193Provider
+}
+
+type Eip6963AnnounceProviderEvent = CustomEvent<Eip6963ProviderDetail>
+
+declare global {
+  interface WindowEventMap {
+    "eip6963:announceProvider": Eip6963AnnounceProviderEvent
+  }
+}
+
+// Wallets may announce at any time, i.e. when an extension finishes loading, so we keep listening once started
+const providerDetailsByRdns = new Map<string, Eip6963ProviderDetail>()
+
+let isListening = false
+
+const listenToAnnouncements = () => {
+  if (isListening) {
+    return
+  }
+  window.addEventListener(
+    "eip6963:announceProvider",
+    (event: Eip6963AnnounceProviderEvent) => {
+      providerDetailsByRdns.set(event.detail.info.rdns, event.detail)
+    },
+  )
+  isListening = true
+}
+
+/**
+ * Asks every injected wallet to announce itself.
+ * Wallets answer synchronously in practice, `timeout` gives slower extensions a chance to catch up.
+ */
+export const discoverInjectedProviders = async (
+  timeout = 100,
+): Promise<ReadonlyArray<Eip6963ProviderDetail>> => {
+  if (typeof window === "undefined") {
+    return []
+  }
+  listenToAnnouncements()
+  window.dispatchEvent(new Event("eip6963:requestProvider"))
+  await new Promise(resolve => setTimeout(resolve, timeout))
+  return Array.from(providerDetailsByRdns.values())
+}
+
+export const findInjectedProvider = async (
+  rdns: string,
+): Promise<Eip6963ProviderDetail | undefined> => {
+  if (!providerDetailsByRdns.has(rdns)) {
+    await discoverInjectedProviders()
+  }
+  return providerDetailsByRdns.get(rdns)
+}
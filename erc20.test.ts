@@ -0,0 +1,71 @@
+import { TypedDataUtils } from "eth-sig-util"
+import { bufferToHex, ecrecover, pubToAddress, toBuffer } from "ethereumjs-util"
+import { Buffer } from "safe-buffer"
+import { bn } from "../helpers/numberUtils"
+import { encodeParameters } from "./abi"
+import { signPermit } from "./erc20"
+import BrowserWeb3Provider from "./providers/browserWeb3Provider"
+import { createPrivateKeySigner } from "./providers/localSignerProvider"
+import MockEip1193Provider from "./providers/mockEip1193Provider"
+
+const PRIVATE_KEY = Buffer.from("22".repeat(32), "hex")
+
+const SIGNER = createPrivateKeySigner(PRIVATE_KEY)
+
+const OWNER = SIGNER.address
+
+const SPENDER = "0x1111111111111111111111111111111111111111"
+
+const TOKEN = "0x2222222222222222222222222222222222222222"
+
+// Results of the token reads, by function selector
+const TOKEN_READS: Record<string, string> = {
+  "0x06fdde03": encodeParameters([{ type: "string" }], ["USD Coin"]),
+  "0x54fd4d50": encodeParameters([{ type: "string" }], ["2"]),
+  "0x7ecebe00": encodeParameters([{ type: "uint256" }], [3]),
+  "0x313ce567": encodeParameters([{ type: "uint8" }], [6]),
+}
+
+describe("signPermit", () => {
+  let eip1193Provider: MockEip1193Provider
+
+  beforeEach(() => {
+    eip1193Provider = new MockEip1193Provider({
+      accounts: [OWNER],
+      chainId: "0x1",
+      responses: {
+        eth_getCode: { result: "0x" },
+        eth_call: params =>
+          TOKEN_READS[(params[0] as { data: string }).data.slice(0, 10)],
+        eth_signTypedData_v4: params =>
+          SIGNER.signTypedData(params[1] as string, "TYPED_DATA_V4"),
+      },
+    })
+  })
+
+  it("returns the v, r, s of the owner signature", async () => {
+    const permit = await signPermit({
+      provider: new BrowserWeb3Provider(eip1193Provider),
+      token: TOKEN,
+      owner: OWNER,
+      spender: SPENDER,
+      amount: bn(1.5),
+      deadline: 1700000000,
+    })
+
+    const [{ params }] = eip1193Provider.getCalls("eth_signTypedData_v4")
+    const typedData = JSON.parse(params[1] as string)
+    const signer = pubToAddress(
+      ecrecover(
+        TypedDataUtils.sign(typedData),
+        permit.v,
+        toBuffer(permit.r),
+        toBuffer(permit.s),
+      ),
+    )
+
+    expect(bufferToHex(signer)).toBe(OWNER)
+    expect(permit.value.toString(10)).toBe("1500000")
+    expect(typedData.message).toMatchObject({ nonce: "3", value: "1500000" })
+  })
+})
@@ -0,0 +1,304 @@
+import { bufferToHex, fromRpcSig } from "ethereumjs-util"
+import { BigNumber, bn } from "../helpers/numberUtils"
+import { Abi, AbiFunction, AbiValue, encodeFunctionData } from "./abi"
+import { Address } from "./chain"
+import { getChainConfig } from "./chainRegistry"
+import Provider, { LegacyTransaction } from "./provider"
+import Web3EvmProvider from "./providers/web3EvmProvider"
+import { TypedData } from "./typedData"
+import { UnsupportedMethodError } from "./walletErrors"
+
+// https://eips.ethereum.org/EIPS/eip-20
+const BALANCE_OF: AbiFunction = {
+  type: "function",
+  name: "balanceOf",
+  inputs: [{ name: "owner", type: "address" }],
+  outputs: [{ name: "balance", type: "uint256" }],
+  stateMutability: "view",
+}
+
+const DECIMALS: AbiFunction = {
+  type: "function",
+  name: "decimals",
+  inputs: [],
+  outputs: [{ name: "decimals", type: "uint8" }],
+  stateMutability: "view",
+}
+
+const ALLOWANCE: AbiFunction = {
+  type: "function",
+  name: "allowance",
+  inputs: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+  ],
+  outputs: [{ name: "remaining", type: "uint256" }],
+  stateMutability: "view",
+}
+
+const TRANSFER: AbiFunction = {
+  type: "function",
+  name: "transfer",
+  inputs: [
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+  ],
+  outputs: [{ name: "success", type: "bool" }],
+  stateMutability: "nonpayable",
+}
+
+const TRANSFER_FROM: AbiFunction = {
+  type: "function",
+  name: "transferFrom",
+  inputs: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+  ],
+  outputs: [{ name: "success", type: "bool" }],
+  stateMutability: "nonpayable",
+}
+
+const APPROVE: AbiFunction = {
+  type: "function",
+  name: "approve",
+  inputs: [
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+  ],
+  outputs: [{ name: "success", type: "bool" }],
+  stateMutability: "nonpayable",
+}
+
+// https://eips.ethereum.org/EIPS/eip-2612
+const NAME: AbiFunction = {
+  type: "function",
+  name: "name",
+  inputs: [],
+  outputs: [{ name: "name", type: "string" }],
+  stateMutability: "view",
+}
+
+const VERSION: AbiFunction = {
+  type: "function",
+  name: "version",
+  inputs: [],
+  outputs: [{ name: "version", type: "string" }],
+  stateMutability: "view",
+}
+
+const NONCES: AbiFunction = {
+  type: "function",
+  name: "nonces",
+  inputs: [{ name: "owner", type: "address" }],
+  outputs: [{ name: "nonce", type: "uint256" }],
+  stateMutability: "view",
+}
+
+const PERMIT: AbiFunction = {
+  type: "function",
+  name: "permit",
+  inputs: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+    { name: "v", type: "uint8" },
+    { name: "r", type: "bytes32" },
+    { name: "s", type: "bytes32" },
+  ],
+  stateMutability: "nonpayable",
+}
+
+export const ERC20_ABI: Abi = [
+  BALANCE_OF,
+  DECIMALS,
+  ALLOWANCE,
+  TRANSFER,
+  TRANSFER_FROM,
+  APPROVE,
+  NAME,
+  VERSION,
+  NONCES,
+  PERMIT,
+]
+
+export const MAX_UINT256 = bn(2).pow(256).minus(1)
+
+/** A number of whole tokens, or `unlimited` to approve the maximum uint256 */
+export type TokenAmount = BigNumber | "unlimited"
+
+export type TokenRead = {
+  /** Needs the `readChain` capability */
+  provider: Provider
+  token: Address
+  /** Connected account the eth_call is made from */
+  source: Address
+}
+
+export type Permit = {
+  owner: Address
+  spender: Address
+  /** In base units, as passed to `permit` */
+  value: BigNumber
+  /** Unix timestamp in seconds */
+  deadline: number
+  v: number
+  r: string
+  s: string
+}
+
+const read = async (
+  { provider, token, source }: TokenRead,
+  item: AbiFunction,
+  args: ReadonlyArray<unknown> = [],
+): Promise<AbiValue> => {
+  const [result] = await provider.readContract(item, args, {
+    source,
+    destination: token,
+  })
+  return result
+}
+
+const toBaseUnits = (amount: TokenAmount, decimals: number): BigNumber =>
+  amount === "unlimited"
+    ? MAX_UINT256
+    : amount.shiftedBy(decimals).integerValue()
+
+export const getTokenDecimals = async (tokenRead: TokenRead): Promise<number> =>
+  ((await read(tokenRead, DECIMALS)) as BigNumber).toNumber()
+
+/**
+ * @returns The balance in whole tokens
+ */
+export const getTokenBalance = async ({
+  owner,
+  decimals,
+  ...tokenRead
+}: TokenRead & { owner: Address; decimals?: number }): Promise<BigNumber> =>
+  bn(
+    (await read(tokenRead, BALANCE_OF, [owner])) as BigNumber,
+    decimals ?? (await getTokenDecimals(tokenRead)),
+  )
+
+/**
+ * @returns The amount of whole tokens `spender` can still transfer from `owner`
+ */
+export const getTokenAllowance = async ({
+  owner,
+  spender,
+  decimals,
+  ...tokenRead
+}: TokenRead & {
+  owner: Address
+  spender: Address
+  decimals?: number
+}): Promise<BigNumber> =>
+  bn(
+    (await read(tokenRead, ALLOWANCE, [owner, spender])) as BigNumber,
+    decimals ?? (await getTokenDecimals(tokenRead)),
+  )
+
+/**
+ * @returns The transaction to send with `Wallet.transact`
+ */
+export const buildApproveTransaction = ({
+  token,
+  spender,
+  amount,
+  decimals,
+}: {
+  token: Address
+  spender: Address
+  amount: TokenAmount
+  decimals: number
+}): Omit<LegacyTransaction, "source"> => ({
+  destination: token,
+  data: encodeFunctionData(APPROVE, [spender, toBaseUnits(amount, decimals)]),
+})
+
+/**
+ * Signs an EIP-2612 permit, letting `spender` submit the approval instead of `owner` sending a transaction.
+ * Tokens without a `version` method are assumed to use version 1, which is the common default.
+ * @throws UnsupportedMethodError if `owner` is a contract account, before prompting the wallet, permits are only valid for ECDSA signatures
+ */
+export const signPermit = async ({
+  provider,
+  token,
+  owner,
+  spender,
+  amount,
+  deadline,
+  decimals,
+}: {
+  provider: Web3EvmProvider
+  token: Address
+  owner: Address
+  spender: Address
+  amount: TokenAmount
+  /** Unix timestamp in seconds */
+  deadline: number
+  decimals?: number
+}): Promise<Permit> => {
+  if (await provider.isContractAccount(owner)) {
+    throw new UnsupportedMethodError(
+      "EIP-2612 permits cannot be signed by contract accounts.",
+    )
+  }
+  const tokenRead = { provider, token, source: owner }
+  const chainIdentifier = await provider.getChain()
+  const chainConfig = chainIdentifier && getChainConfig(chainIdentifier)
+  if (!chainConfig) {
+    throw new Error("Could not determine the chain the wallet is connected to.")
+  }
+  const [name, version, nonce, tokenDecimals] = await Promise.all([
+    read(tokenRead, NAME) as Promise<string>,
+    (read(tokenRead, VERSION) as Promise<string>).catch(() => "1"),
+    read(tokenRead, NONCES, [owner]) as Promise<BigNumber>,
+    decimals ?? getTokenDecimals(tokenRead),
+  ])
+  const value = toBaseUnits(amount, tokenDecimals)
+
+  const typedData: TypedData = {
+    domain: {
+      name,
+      version,
+      chainId: chainConfig.chainId,
+      verifyingContract: token,
+    },
+    types: {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    primaryType: "Permit",
+    message: {
+      owner,
+      spender,
+      value: value.toString(10),
+      nonce: nonce.toString(10),
+      deadline: String(deadline),
+    },
+  }
+
+  // Requested as is, `signTypedData` reorders signatures of EOAs for 0x
+  const signature = await provider.request<string>("eth_signTypedData_v4", [
+    owner,
+    await provider.prepareTypedData(typedData, "TYPED_DATA_V4"),
+  ])
+  // Returned as r, s, v, with v normalized to 27 or 28
+  const { v, r, s } = fromRpcSig(signature)
+  return {
+    owner,
+    spender,
+    value,
+    deadline,
+    v,
+    r: bufferToHex(r),
+    s: bufferToHex(s),
+  }
+}
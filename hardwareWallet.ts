@@ -0,0 +1,123 @@
+import { Buffer } from "safe-buffer"
+import { UnsignedTransaction } from "../transactionSerializer"
+import type { TypedDataStandard } from "../typedData"
+
+/**
+ * The part of `@ledgerhq/hw-transport` we rely on: sends a raw APDU, resolves with the response data followed by the status word.
+ * WebHID and WebUSB transports satisfy it as is, tests can use `createTranscriptTransport`.
+ */
+export interface ApduTransport {
+  exchange(apdu: Buffer): Promise<Buffer>
+  close(): Promise<void>
+}
+
+/** One APDU round trip, hex encoded */
+export type ApduExchange = {
+  command: string
+  response: string
+}
+
+/**
+ * A signing device, derivation paths are BIP-32 paths such as m/44'/60'/0'/0/0.
+ */
+export interface HardwareDevice {
+  /** Registration id of the wallet, i.e. ledger */
+  readonly name: string
+  getAddress(path: string): Promise<string>
+  /** @returns 65 bytes r, s, v signature */
+  signPersonalMessage(path: string, message: Buffer): Promise<string>
+  /** @returns 65 bytes r, s, v signature */
+  signTypedData(
+    path: string,
+    data: string,
+    standard: TypedDataStandard,
+  ): Promise<string>
+  /** @returns The signed raw transaction */
+  signTransaction(
+    path: string,
+    transaction: UnsignedTransaction,
+  ): Promise<string>
+  close?(): Promise<void>
+}
+
+export type DerivationScheme = "ledgerLive" | "legacy" | "bip44"
+
+/**
+ * Path of the account at `index` for each scheme wallets commonly use.
+ */
+export const DERIVATION_PATHS: Record<
+  DerivationScheme,
+  (index: number) => string
+> = {
+  ledgerLive: index => `m/44'/60'/${index}'/0/0`,
+  // Ledger Chrome app and MyEtherWallet
+  legacy: index => `m/44'/60'/0'/${index}`,
+  // MetaMask, Trezor and most software wallets
+  bip44: index => `m/44'/60'/0'/0/${index}`,
+}
+
+const HARDENED_OFFSET = 0x80000000
+
+/**
+ * @returns The path indexes, hardened ones offset by 2^31
+ */
+export const parseDerivationPath = (path: string): number[] => {
+  const [root, ...segments] = path.split("/")
+  if (root !== "m") {
+    throw new Error(`Invalid derivation path ${path}`)
+  }
+  return segments.map(segment => {
+    const isHardened = segment.endsWith("'")
+    const index = Number(isHardened ? segment.slice(0, -1) : segment)
+    if (!Number.isInteger(index) || index < 0 || index >= HARDENED_OFFSET) {
+      throw new Error(`Invalid derivation path ${path}`)
+    }
+    return isHardened ? index + HARDENED_OFFSET : index
+  })
+}
+
+/**
+ * Replays a recorded device session, failing on the first command that differs from the transcript.
+ */
+export const createTranscriptTransport = (
+  transcript: ReadonlyArray<ApduExchange>,
+): ApduTransport => {
+  let position = 0
+  return {
+    exchange: async apdu => {
+      const exchange = transcript[position]
+      const command = apdu.toString("hex")
+      if (!exchange || exchange.command.toLowerCase() !== command) {
+        throw new Error(
+          `Unexpected APDU ${command} at position ${position} of the transcript`,
+        )
+      }
+      position++
+      return Buffer.from(exchange.response, "hex")
+    },
+    close: async () => undefined,
+  }
+}
+
+/**
+ * Wraps a transport to record its exchanges, i.e. to produce transcripts from a real or emulated device.
+ */
+export const recordTransport = (
+  transport: ApduTransport,
+): { transport: ApduTransport; transcript: ApduExchange[] } => {
+  const transcript: ApduExchange[] = []
+  return {
+    transcript,
+    transport: {
+      exchange: async apdu => {
+        const response = await transport.exchange(apdu)
+        transcript.push({
+          command: apdu.toString("hex"),
+          response: response.toString("hex"),
+        })
+        return response
+      },
+      close: () => transport.close(),
+    },
+  }
+}
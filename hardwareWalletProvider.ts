@@ -0,0 +1,168 @@
+import { compact } from "lodash"
+import { AccountKey } from "lib/chain/chain"
+import Publisher from "lib/helpers/publisher"
+import { getRpcProvider } from "../chainRegistry"
+import Ethereum from "../networks/ethereum"
+import type { ProviderCapabilities } from "../provider"
+import { Eip1193Provider } from "./eip1193"
+import {
+  ApduTransport,
+  DERIVATION_PATHS,
+  DerivationScheme,
+  HardwareDevice,
+} from "./hardwareWallet"
+import LedgerDevice from "./ledgerDevice"
+import { AccountSigner, createSigningEip1193Provider } from "./signingTransport"
+import TrezorDevice, { TrezorConnectLike } from "./trezorDevice"
+import Web3EvmProvider from "./web3EvmProvider"
+
+export type HardwareAccount = {
+  address: string
+  path: string
+}
+
+type HardwareWalletOptions = {
+  derivationScheme?: DerivationScheme
+  /** Node used for reads and broadcasting, defaults to the app chain */
+  rpcProvider?: Eip1193Provider
+}
+
+const toSigner = (
+  device: HardwareDevice,
+  { address, path }: HardwareAccount,
+): AccountSigner => ({
+  address,
+  signPersonalMessage: message => device.signPersonalMessage(path, message),
+  signTypedData: (data, standard) => device.signTypedData(path, data, standard),
+  signTransaction: transaction => device.signTransaction(path, transaction),
+})
+
+const getAppRpcProvider = (): Eip1193Provider => {
+  const rpcProvider = getRpcProvider(Ethereum.getChainName())
+  if (!rpcProvider) {
+    throw new Error(`No RPC url for ${Ethereum.getChainName()}`)
+  }
+  return rpcProvider
+}
+
+/**
+ * Signs on a Ledger or Trezor without going through a browser wallet bridge.
+ * Accounts are listed with `getAccountPage`, then the ones the user picks are passed to `selectAccounts`.
+ */
+export default class HardwareWalletProvider extends Web3EvmProvider {
+  eip1193Provider: Eip1193Provider
+  device: HardwareDevice
+  derivationScheme: DerivationScheme
+
+  private accounts: ReadonlyArray<HardwareAccount> = []
+
+  private accountsPublisher: Publisher = new Publisher()
+
+  constructor(
+    device: HardwareDevice,
+    {
+      derivationScheme = "ledgerLive",
+      rpcProvider = getAppRpcProvider(),
+    }: HardwareWalletOptions = {},
+  ) {
+    super()
+    this.device = device
+    this.derivationScheme = derivationScheme
+    this.eip1193Provider = createSigningEip1193Provider(
+      () => this.accounts.map(account => toSigner(this.device, account)),
+      rpcProvider,
+    )
+  }
+
+  /**
+   * Derives the accounts at `page * pageSize` to `(page + 1) * pageSize - 1`, one device round trip each.
+   */
+  getAccountPage = async (
+    page = 0,
+    pageSize = 5,
+    derivationScheme: DerivationScheme = this.derivationScheme,
+  ): Promise<HardwareAccount[]> => {
+    const accounts: HardwareAccount[] = []
+    // Devices handle a single request at a time
+    for (let i = 0; i < pageSize; i++) {
+      const path = DERIVATION_PATHS[derivationScheme](page * pageSize + i)
+      accounts.push({ path, address: await this.device.getAddress(path) })
+    }
+    return accounts
+  }
+
+  selectAccounts = (accounts: ReadonlyArray<HardwareAccount>): void => {
+    this.accounts = accounts
+    this.accountsPublisher.publish()
+  }
+
+  getSelectedAccounts = (): ReadonlyArray<HardwareAccount> => this.accounts
+
+  connect = async () => {
+    if (!this.accounts.length) {
+      this.selectAccounts(await this.getAccountPage(0, 1))
+    }
+    await super.connect()
+  }
+
+  disconnect = async () => {
+    this.selectAccounts([])
+    await this.device.close?.()
+  }
+
+  // Devices sign typed data hashes, not the legacy V1 format
+  getCapabilities = async (): Promise<ProviderCapabilities> => ({
+    ...(await super.getCapabilities()),
+    switchChain: false,
+    addChain: false,
+    typedDataStandards: ["TYPED_DATA_V3", "TYPED_DATA_V4"],
+    disconnect: true,
+    supportedChains: compact([await this.getChain()]),
+  })
+
+  onAccountsChange(handler: (accounts: AccountKey[]) => unknown) {
+    return this.accountsPublisher.subscribe(async () =>
+      handler(await this.getAccounts()),
+    )
+  }
+
+  getName = () => {
+    return this.device.name
+  }
+}
+
+/**
+ * @param transport Defaults to WebHID, which needs to be created from a user gesture
+ */
+export const createLedgerProvider = async (
+  transport?: ApduTransport,
+  options?: HardwareWalletOptions,
+): Promise<HardwareWalletProvider> => {
+  const ledgerTransport =
+    transport ??
+    ((await (
+      await import("@ledgerhq/hw-transport-webhid")
+    ).default.create()) as ApduTransport)
+  return new HardwareWalletProvider(new LedgerDevice(ledgerTransport), options)
+}
+
+export const createTrezorProvider = async (
+  connect?: TrezorConnectLike,
+  options?: HardwareWalletOptions,
+): Promise<HardwareWalletProvider> => {
+  let trezorConnect = connect
+  if (!trezorConnect) {
+    const TrezorConnect = (await import("@trezor/connect-web")).default
+    await TrezorConnect.init({
+      manifest: {
+        email: process.env.NEXT_PUBLIC_TREZOR_MANIFEST_EMAIL,
+        appUrl: window.location.origin,
+      },
+    })
+    trezorConnect = TrezorConnect as unknown as TrezorConnectLike
+  }
+  return new HardwareWalletProvider(new TrezorDevice(trezorConnect), {
+    derivationScheme: "bip44",
+    ...options,
+  })
+}
@@ -0,0 +1,197 @@
+import { TypedDataUtils } from "eth-sig-util"
+import { bufferToHex, toBuffer } from "ethereumjs-util"
+import { Buffer } from "safe-buffer"
+import {
+  getRecoveryFromV,
+  serializeTransaction,
+  UnsignedTransaction,
+} from "../transactionSerializer"
+import type { TypedDataStandard } from "../typedData"
+import {
+  UnsupportedMethodError,
+  UserRejectedRequestError,
+  WalletError,
+} from "../walletErrors"
+import {
+  ApduTransport,
+  HardwareDevice,
+  parseDerivationPath,
+} from "./hardwareWallet"
+
+// Ethereum app commands: https://github.com/LedgerHQ/app-ethereum/blob/develop/doc/ethapp.adoc
+const CLA = 0xe0
+const INS_GET_ADDRESS = 0x02
+const INS_SIGN_TRANSACTION = 0x04
+const INS_SIGN_PERSONAL_MESSAGE = 0x08
+const INS_SIGN_EIP712_HASHED = 0x0c
+
+const P1_FIRST_CHUNK = 0x00
+const P1_MORE_CHUNKS = 0x80
+
+const MAX_CHUNK_SIZE = 255
+
+const STATUS_OK = 0x9000
+const STATUS_USER_DENIED = 0x6985
+const STATUSES_APP_NOT_OPEN = [0x6d00, 0x6e00, 0x6511]
+
+const encodePath = (path: string) => {
+  const indexes = parseDerivationPath(path)
+  const buffer = Buffer.alloc(1 + indexes.length * 4)
+  buffer[0] = indexes.length
+  indexes.forEach((index, i) => buffer.writeUInt32BE(index, 1 + i * 4))
+  return buffer
+}
+
+// Responses to signing commands are v (1 byte), r (32 bytes) and s (32 bytes)
+const readSignature = (response: Buffer) => ({
+  v: response[0],
+  r: response.slice(1, 33),
+  s: response.slice(33, 65),
+})
+
+export default class LedgerDevice implements HardwareDevice {
+  readonly name = "ledger"
+
+  transport: ApduTransport
+
+  constructor(transport: ApduTransport) {
+    this.transport = transport
+  }
+
+  /**
+   * @throws UserRejectedRequestError when the user rejects on the device
+   */
+  private send = async (
+    ins: number,
+    p1: number,
+    data: Buffer,
+  ): Promise<Buffer> => {
+    const response = await this.transport.exchange(
+      Buffer.concat([Buffer.from([CLA, ins, p1, 0x00, data.length]), data]),
+    )
+    const status = response.readUInt16BE(response.length - 2)
+    if (status === STATUS_USER_DENIED) {
+      throw new UserRejectedRequestError(
+        "The request was rejected on the Ledger.",
+      )
+    }
+    if (STATUSES_APP_NOT_OPEN.includes(status)) {
+      throw new WalletError("Open the Ethereum app on your Ledger.", {
+        data: { status },
+      })
+    }
+    if (status !== STATUS_OK) {
+      throw new WalletError(
+        `The Ledger failed with status 0x${status.toString(16)}.`,
+        { data: { status } },
+      )
+    }
+    return response.slice(0, -2)
+  }
+
+  /**
+   * Payloads larger than an APDU are split, the derivation path only goes in the first chunk.
+   */
+  private sendChunked = async (
+    ins: number,
+    path: string,
+    payload: Buffer,
+  ): Promise<Buffer> => {
+    const data = Buffer.concat([encodePath(path), payload])
+    let response = Buffer.alloc(0)
+    for (let offset = 0; offset < data.length; offset += MAX_CHUNK_SIZE) {
+      response = await this.send(
+        ins,
+        offset === 0 ? P1_FIRST_CHUNK : P1_MORE_CHUNKS,
+        data.slice(offset, offset + MAX_CHUNK_SIZE),
+      )
+    }
+    return response
+  }
+
+  getAddress = async (path: string): Promise<string> => {
+    const response = await this.send(
+      INS_GET_ADDRESS,
+      P1_FIRST_CHUNK,
+      encodePath(path),
+    )
+    const publicKeyLength = response[0]
+    const addressLength = response[1 + publicKeyLength]
+    const address = response
+      .slice(2 + publicKeyLength, 2 + publicKeyLength + addressLength)
+      .toString("ascii")
+    return `0x${address.toLowerCase()}`
+  }
+
+  signPersonalMessage = async (
+    path: string,
+    message: Buffer,
+  ): Promise<string> => {
+    const length = Buffer.alloc(4)
+    length.writeUInt32BE(message.length, 0)
+    const { v, r, s } = readSignature(
+      await this.sendChunked(
+        INS_SIGN_PERSONAL_MESSAGE,
+        path,
+        Buffer.concat([length, message]),
+      ),
+    )
+    return bufferToHex(Buffer.concat([r, s, Buffer.from([v])]))
+  }
+
+  /**
+   * Signs the domain separator and message hash, the device cannot display the message fields.
+   */
+  signTypedData = async (
+    path: string,
+    data: string,
+    standard: TypedDataStandard,
+  ): Promise<string> => {
+    if (standard === "TYPED_DATA_V1") {
+      throw new UnsupportedMethodError(
+        "Ledger does not support legacy typed data signatures.",
+      )
+    }
+    const useV4 = standard === "TYPED_DATA_V4"
+    const { domain, types, primaryType, message } = TypedDataUtils.sanitizeData(
+      JSON.parse(data),
+    )
+    const { v, r, s } = readSignature(
+      await this.send(
+        INS_SIGN_EIP712_HASHED,
+        P1_FIRST_CHUNK,
+        Buffer.concat([
+          encodePath(path),
+          TypedDataUtils.hashStruct("EIP712Domain", domain, types, useV4),
+          TypedDataUtils.hashStruct(
+            primaryType as string,
+            message,
+            types,
+            useV4,
+          ),
+        ]),
+      ),
+    )
+    return bufferToHex(Buffer.concat([r, s, Buffer.from([v])]))
+  }
+
+  signTransaction = async (
+    path: string,
+    transaction: UnsignedTransaction,
+  ): Promise<string> => {
+    const { v, r, s } = readSignature(
+      await this.sendChunked(
+        INS_SIGN_TRANSACTION,
+        path,
+        toBuffer(serializeTransaction(transaction)),
+      ),
+    )
+    return serializeTransaction(transaction, {
+      recovery: getRecoveryFromV(transaction, v),
+      r,
+      s,
+    })
+  }
+
+  close = (): Promise<void> => this.transport.close()
+}
@@ -0,0 +1,118 @@
+import {
+  signTypedData,
+  signTypedData_v4,
+  signTypedDataLegacy,
+} from "eth-sig-util"
+import {
+  bufferToHex,
+  ecsign,
+  hashPersonalMessage,
+  privateToAddress,
+  toBuffer,
+  toRpcSig,
+} from "ethereumjs-util"
+import { compact, noop } from "lodash"
+import { Buffer } from "safe-buffer"
+import type { ProviderCapabilities } from "../provider"
+import { signTransaction } from "../transactionSerializer"
+import { createHttpProvider, Eip1193Provider } from "./eip1193"
+import { AccountSigner, createSigningEip1193Provider } from "./signingTransport"
+import Web3EvmProvider from "./web3EvmProvider"
+
+// BIP-44 path of Ethereum accounts, the account index is appended
+const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0"
+
+export const createPrivateKeySigner = (
+  privateKey: string | Buffer,
+): AccountSigner => {
+  const key = toBuffer(privateKey)
+  return {
+    address: bufferToHex(privateToAddress(key)),
+    signPersonalMessage: async message => {
+      const { v, r, s } = ecsign(hashPersonalMessage(message), key)
+      return toRpcSig(v, r, s)
+    },
+    signTypedData: async (data, standard) => {
+      const msgParams = { data: JSON.parse(data) }
+      switch (standard) {
+        case "TYPED_DATA_V1":
+          return signTypedDataLegacy(key, msgParams)
+        case "TYPED_DATA_V3":
+          return signTypedData(key, msgParams)
+        case "TYPED_DATA_V4":
+          return signTypedData_v4(key, msgParams)
+      }
+    },
+    signTransaction: async transaction => signTransaction(transaction, key),
+  }
+}
+
+/**
+ * Holds private keys in memory and broadcasts through a JSON-RPC node, i.e. a local Anvil or Hardhat node.
+ * Meant for end to end tests and backend jobs, never for keys of real users.
+ * The node chain id has to be known to the chain registry, see `registerChain`.
+ */
+export default class LocalSignerProvider extends Web3EvmProvider {
+  eip1193Provider: Eip1193Provider
+  signers: ReadonlyArray<AccountSigner>
+
+  constructor(signers: ReadonlyArray<AccountSigner>, rpcUrl: string) {
+    super()
+    this.signers = signers
+    this.eip1193Provider = createSigningEip1193Provider(
+      () => this.signers,
+      createHttpProvider(rpcUrl),
+    )
+  }
+
+  disconnect = noop
+
+  // Signers are bound to the chain of their RPC url
+  getCapabilities = async (): Promise<ProviderCapabilities> => ({
+    ...(await super.getCapabilities()),
+    switchChain: false,
+    addChain: false,
+    supportedChains: compact([await this.getChain()]),
+  })
+
+  getName = () => {
+    return "local-signer"
+  }
+}
+
+export const createLocalSignerProvider = ({
+  privateKeys,
+  rpcUrl,
+}: {
+  privateKeys: ReadonlyArray<string | Buffer>
+  rpcUrl: string
+}): LocalSignerProvider =>
+  new LocalSignerProvider(privateKeys.map(createPrivateKeySigner), rpcUrl)
+
+/**
+ * Derives `count` accounts from the mnemonic, at `${derivationPath}/0` to `${derivationPath}/${count - 1}`.
+ */
+export const createMnemonicSignerProvider = async ({
+  mnemonic,
+  count = 1,
+  derivationPath = DEFAULT_DERIVATION_PATH,
+  rpcUrl,
+}: {
+  mnemonic: string
+  count?: number
+  derivationPath?: string
+  rpcUrl: string
+}): Promise<LocalSignerProvider> => {
+  const [{ mnemonicToSeed, validateMnemonic }, { hdkey }] = await Promise.all([
+    import("bip39"),
+    import("ethereumjs-wallet"),
+  ])
+  if (!validateMnemonic(mnemonic)) {
+    throw new Error("Invalid mnemonic")
+  }
+  const root = hdkey.fromMasterSeed(await mnemonicToSeed(mnemonic))
+  const privateKeys = Array.from({ length: count }, (_, index) =>
+    root.derivePath(`${derivationPath}/${index}`).getWallet().getPrivateKey(),
+  )
+  return createLocalSignerProvider({ privateKeys, rpcUrl })
+}
@@ -0,0 +1,203 @@
+import { ChainNotAddedError, MethodNotFoundError } from "../walletErrors"
+import { Eip1193Provider, ProviderEvent, RequestArguments } from "./eip1193"
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Listener = (...args: any[]) => unknown
+
+export type MockRpcError = {
+  code: number
+  message?: string
+  data?: unknown
+}
+
+/**
+ * How the mock answers a method: a fixed result, an error, or a function of the params.
+ */
+export type MockResponse =
+  | { result: unknown }
+  | { error: MockRpcError }
+  | ((params: unknown[]) => unknown)
+
+export type RecordedCall = {
+  method: string
+  params: unknown[]
+}
+
+export type MockEip1193ProviderOptions = {
+  accounts?: string[]
+  /** Hex chain id, i.e. 0x1 */
+  chainId?: string
+  /** Chains `wallet_switchEthereumChain` accepts without asking to add them, defaults to `chainId` */
+  knownChainIds?: string[]
+  /** Milliseconds every request waits before answering */
+  latency?: number
+  responses?: Record<string, MockResponse>
+}
+
+const toError = ({ code, message, data }: MockRpcError) =>
+  Object.assign(new Error(message ?? `Mock error ${code}`), { code, data })
+
+/**
+ * Scriptable stand-in for an injected wallet, to plug into `BrowserWeb3Provider` in tests:
+ * `new BrowserWeb3Provider(new MockEip1193Provider({ accounts: [address] }))`.
+ *
+ * Without a scripted response, accounts and chain methods behave like MetaMask does,
+ * including 4902 when switching to a chain that was not added. Other methods fail with -32601.
+ */
+export default class MockEip1193Provider implements Eip1193Provider {
+  accounts: string[]
+  chainId: string
+  latency: number
+
+  /** Every request in order, for assertions */
+  calls: RecordedCall[] = []
+
+  private knownChainIds: Set<string>
+
+  private responses: Map<string, MockResponse>
+
+  private queuedResponses: Map<string, MockResponse[]> = new Map()
+
+  private listeners: Map<ProviderEvent, Set<Listener>> = new Map()
+
+  constructor({
+    accounts = [],
+    chainId = "0x1",
+    knownChainIds = [chainId],
+    latency = 0,
+    responses = {},
+  }: MockEip1193ProviderOptions = {}) {
+    this.accounts = accounts
+    this.chainId = chainId
+    this.knownChainIds = new Set(knownChainIds.map(id => Number(id).toString()))
+    this.latency = latency
+    this.responses = new Map(Object.entries(responses))
+  }
+
+  /**
+   * Answers every following call to `method`, until reset.
+   */
+  setResponse = (method: string, response: MockResponse): this => {
+    this.responses.set(method, response)
+    return this
+  }
+
+  /**
+   * Answers the next call to `method` only, queued responses are used in order before `setResponse` ones.
+   */
+  queueResponse = (method: string, response: MockResponse): this => {
+    this.queuedResponses.set(method, [
+      ...(this.queuedResponses.get(method) ?? []),
+      response,
+    ])
+    return this
+  }
+
+  /**
+   * Fails the next call to `method`, i.e. `rejectNext("eth_requestAccounts", UserRejectedRequestError.code)`.
+   */
+  rejectNext = (method: string, code: number, message?: string): this =>
+    this.queueResponse(method, { error: { code, message } })
+
+  getCalls = (method?: string): RecordedCall[] =>
+    method ? this.calls.filter(call => call.method === method) : this.calls
+
+  reset = (): void => {
+    this.calls = []
+    this.responses.clear()
+    this.queuedResponses.clear()
+  }
+
+  emit = (event: ProviderEvent, ...args: unknown[]): void => {
+    this.listeners.get(event)?.forEach(listener => listener(...args))
+  }
+
+  /**
+   * Simulates the user switching accounts in the wallet.
+   */
+  setAccounts = (accounts: string[]): void => {
+    this.accounts = accounts
+    this.emit("accountsChanged", accounts)
+  }
+
+  /**
+   * Simulates the user switching networks in the wallet.
+   */
+  setChainId = (chainId: string): void => {
+    this.chainId = chainId
+    this.knownChainIds.add(Number(chainId).toString())
+    this.emit("chainChanged", chainId)
+  }
+
+  on = (event: ProviderEvent, listener: Listener): void => {
+    const listeners = this.listeners.get(event) ?? new Set()
+    listeners.add(listener)
+    this.listeners.set(event, listeners)
+  }
+
+  removeListener = (event: ProviderEvent, listener: Listener): void => {
+    this.listeners.get(event)?.delete(listener)
+  }
+
+  request = async <T>({ method, params }: RequestArguments): Promise<T> => {
+    const args = Array.isArray(params) ? params : params ? [params] : []
+    this.calls.push({ method, params: args })
+    if (this.latency) {
+      await new Promise(resolve => setTimeout(resolve, this.latency))
+    }
+
+    const [queuedResponse, ...rest] = this.queuedResponses.get(method) ?? []
+    if (queuedResponse) {
+      this.queuedResponses.set(method, rest)
+    }
+    const response = queuedResponse ?? this.responses.get(method)
+    if (response) {
+      if (typeof response === "function") {
+        return (await response(args)) as T
+      }
+      if ("error" in response) {
+        throw toError(response.error)
+      }
+      return response.result as T
+    }
+    return this.defaultResponse(method, args) as T
+  }
+
+  private defaultResponse = (method: string, args: unknown[]): unknown => {
+    switch (method) {
+      case "eth_accounts":
+      case "eth_requestAccounts":
+        return this.accounts
+      case "eth_chainId":
+        return this.chainId
+      case "net_version":
+        return Number(this.chainId).toString()
+      case "wallet_switchEthereumChain": {
+        const [{ chainId }] = args as [{ chainId: string }]
+        if (!this.knownChainIds.has(Number(chainId).toString())) {
+          throw toError({
+            code: ChainNotAddedError.code,
+            message: `Unrecognized chain ID "${chainId}".`,
+          })
+        }
+        if (Number(chainId) !== Number(this.chainId)) {
+          this.setChainId(chainId)
+        }
+        return null
+      }
+      case "wallet_addEthereumChain": {
+        const [{ chainId }] = args as [{ chainId: string }]
+        this.knownChainIds.add(Number(chainId).toString())
+        // MetaMask offers to switch to the chain right after adding it
+        if (Number(chainId) !== Number(this.chainId)) {
+          this.setChainId(chainId)
+        }
+        return null
+      }
+    }
+    throw toError({
+      code: MethodNotFoundError.code,
+      message: `The method "${method}" is not scripted on the mock provider.`,
+    })
+  }
+}
@@ -0,0 +1,294 @@
+import { BigNumber } from "../helpers/numberUtils"
+import { Abi, AbiFunction, encodeFunctionData } from "./abi"
+import { Address } from "./chain"
+import Provider, { LegacyTransaction } from "./provider"
+
+// https://eips.ethereum.org/EIPS/eip-721
+const ERC721_SAFE_TRANSFER_FROM: AbiFunction = {
+  type: "function",
+  name: "safeTransferFrom",
+  inputs: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "data", type: "bytes" },
+  ],
+  stateMutability: "nonpayable",
+}
+
+// https://eips.ethereum.org/EIPS/eip-1155
+const ERC1155_SAFE_TRANSFER_FROM: AbiFunction = {
+  type: "function",
+  name: "safeTransferFrom",
+  inputs: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "id", type: "uint256" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+  ],
+  stateMutability: "nonpayable",
+}
+
+const ERC1155_SAFE_BATCH_TRANSFER_FROM: AbiFunction = {
+  type: "function",
+  name: "safeBatchTransferFrom",
+  inputs: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "ids", type: "uint256[]" },
+    { name: "values", type: "uint256[]" },
+    { name: "data", type: "bytes" },
+  ],
+  stateMutability: "nonpayable",
+}
+
+// Same selectors as ERC-20 approve and transferFrom, the second argument is a token id
+const ERC721_APPROVE: AbiFunction = {
+  type: "function",
+  name: "approve",
+  inputs: [
+    { name: "to", type: "address" },
+    { name: "tokenId", type: "uint256" },
+  ],
+  stateMutability: "nonpayable",
+}
+
+const ERC721_TRANSFER_FROM: AbiFunction = {
+  type: "function",
+  name: "transferFrom",
+  inputs: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "tokenId", type: "uint256" },
+  ],
+  stateMutability: "nonpayable",
+}
+
+// Same signature in ERC-721 and ERC-1155
+const SET_APPROVAL_FOR_ALL: AbiFunction = {
+  type: "function",
+  name: "setApprovalForAll",
+  inputs: [
+    { name: "operator", type: "address" },
+    { name: "approved", type: "bool" },
+  ],
+  stateMutability: "nonpayable",
+}
+
+const IS_APPROVED_FOR_ALL: AbiFunction = {
+  type: "function",
+  name: "isApprovedForAll",
+  inputs: [
+    { name: "owner", type: "address" },
+    { name: "operator", type: "address" },
+  ],
+  outputs: [{ name: "approved", type: "bool" }],
+  stateMutability: "view",
+}
+
+// https://eips.ethereum.org/EIPS/eip-165
+const SUPPORTS_INTERFACE: AbiFunction = {
+  type: "function",
+  name: "supportsInterface",
+  inputs: [{ name: "interfaceId", type: "bytes4" }],
+  outputs: [{ name: "supported", type: "bool" }],
+  stateMutability: "view",
+}
+
+export const NFT_ABI: Abi = [
+  ERC721_SAFE_TRANSFER_FROM,
+  ERC1155_SAFE_TRANSFER_FROM,
+  ERC1155_SAFE_BATCH_TRANSFER_FROM,
+  SET_APPROVAL_FOR_ALL,
+  IS_APPROVED_FOR_ALL,
+  SUPPORTS_INTERFACE,
+]
+
+/** Left out of `NFT_ABI`, their selectors can only be told apart from ERC-20 ones by the contract standard */
+export const ERC721_ERC20_OVERLAP_ABI: Abi = [
+  ERC721_APPROVE,
+  ERC721_TRANSFER_FROM,
+]
+
+export const ERC721_INTERFACE_ID = "0x80ac58cd"
+export const ERC1155_INTERFACE_ID = "0xd9b67a26"
+
+export type NftStandard = "ERC721" | "ERC1155"
+
+export type NftTransaction = Omit<LegacyTransaction, "source">
+
+export type NftRead = {
+  /** Needs the `readChain` capability */
+  provider: Provider
+  contract: Address
+  /** Connected account the eth_call is made from */
+  source: Address
+}
+
+type TokenId = BigNumber | string
+
+type Erc721Transfer = {
+  contract: Address
+  from: Address
+  to: Address
+  tokenId: TokenId
+  /** Passed to `onERC721Received` when `to` is a contract */
+  data?: string
+}
+
+type Erc1155Transfer = {
+  contract: Address
+  from: Address
+  to: Address
+  tokenId: TokenId
+  amount: BigNumber | number
+  /** Passed to `onERC1155Received` when `to` is a contract */
+  data?: string
+}
+
+/**
+ * The transactions built here are sent with `Wallet.transact`, which fills in the active account as source.
+ */
+export const buildErc721TransferTransaction = ({
+  contract,
+  from,
+  to,
+  tokenId,
+  data = "0x",
+}: Erc721Transfer): NftTransaction => ({
+  destination: contract,
+  data: encodeFunctionData(ERC721_SAFE_TRANSFER_FROM, [
+    from,
+    to,
+    tokenId,
+    data,
+  ]),
+})
+
+/**
+ * ERC-721 has no batch transfer, this builds one transaction per token.
+ */
+export const buildErc721BatchTransferTransactions = ({
+  tokenIds,
+  ...transfer
+}: Omit<Erc721Transfer, "tokenId"> & {
+  tokenIds: ReadonlyArray<TokenId>
+}): NftTransaction[] =>
+  tokenIds.map(tokenId =>
+    buildErc721TransferTransaction({ ...transfer, tokenId }),
+  )
+
+export const buildErc1155TransferTransaction = ({
+  contract,
+  from,
+  to,
+  tokenId,
+  amount,
+  data = "0x",
+}: Erc1155Transfer): NftTransaction => ({
+  destination: contract,
+  data: encodeFunctionData(ERC1155_SAFE_TRANSFER_FROM, [
+    from,
+    to,
+    tokenId,
+    amount,
+    data,
+  ]),
+})
+
+export const buildErc1155BatchTransferTransaction = ({
+  contract,
+  from,
+  to,
+  tokenIds,
+  amounts,
+  data = "0x",
+}: Omit<Erc1155Transfer, "tokenId" | "amount"> & {
+  tokenIds: ReadonlyArray<TokenId>
+  amounts: ReadonlyArray<BigNumber | number>
+}): NftTransaction => {
+  if (tokenIds.length !== amounts.length) {
+    throw new Error(
+      `Expected an amount for each of the ${tokenIds.length} tokens but got ${amounts.length}`,
+    )
+  }
+  return {
+    destination: contract,
+    data: encodeFunctionData(ERC1155_SAFE_BATCH_TRANSFER_FROM, [
+      from,
+      to,
+      tokenIds,
+      amounts,
+      data,
+    ]),
+  }
+}
+
+/**
+ * Works for both ERC-721 and ERC-1155 collections.
+ */
+export const buildSetApprovalForAllTransaction = ({
+  contract,
+  operator,
+  approved,
+}: {
+  contract: Address
+  operator: Address
+  approved: boolean
+}): NftTransaction => ({
+  destination: contract,
+  data: encodeFunctionData(SET_APPROVAL_FOR_ALL, [operator, approved]),
+})
+
+export const isApprovedForAll = async ({
+  provider,
+  contract,
+  source,
+  owner,
+  operator,
+}: NftRead & { owner: Address; operator: Address }): Promise<boolean> => {
+  const [approved] = await provider.readContract(
+    IS_APPROVED_FOR_ALL,
+    [owner, operator],
+    { source, destination: contract },
+  )
+  return approved as boolean
+}
+
+/**
+ * @returns false as well when the contract does not implement ERC-165
+ */
+export const supportsInterface = async ({
+  provider,
+  contract,
+  source,
+  interfaceId,
+}: NftRead & { interfaceId: string }): Promise<boolean> => {
+  try {
+    const [supported] = await provider.readContract(
+      SUPPORTS_INTERFACE,
+      [interfaceId],
+      { source, destination: contract },
+    )
+    return supported as boolean
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * @returns undefined when the contract implements neither standard through ERC-165
+ */
+export const getNftStandard = async (
+  nftRead: NftRead,
+): Promise<NftStandard | undefined> => {
+  const [isErc721, isErc1155] = await Promise.all([
+    supportsInterface({ ...nftRead, interfaceId: ERC721_INTERFACE_ID }),
+    supportsInterface({ ...nftRead, interfaceId: ERC1155_INTERFACE_ID }),
+  ])
+  if (isErc721) {
+    return "ERC721"
+  }
+  return isErc1155 ? "ERC1155" : undefined
+}
@@ -0,0 +1,68 @@
+import { noop } from "lodash"
+import { ChainIdentifier } from "../../constants"
+import { Address } from "./chain"
+import Provider from "./provider"
+
+type NonceKey = string
+
+const toKey = (address: Address, chain: ChainIdentifier): NonceKey =>
+  `${chain}:${address.toLowerCase()}`
+
+/**
+ * Hands out consecutive nonces per account and chain, so transactions sent back to back
+ * do not reuse a nonce the node does not count as pending yet.
+ */
+export default class NonceManager {
+  // Next nonce to hand out, when ahead of the node's pending count
+  private nextNonces: Map<NonceKey, number> = new Map()
+
+  // Reservations run one at a time per account, concurrent ones would read the same pending count
+  private reservations: Map<NonceKey, Promise<number>> = new Map()
+
+  reserve = async (provider: Provider, address: Address): Promise<number> => {
+    const chain = await provider.getChain()
+    if (!chain) {
+      throw new Error(
+        "Could not determine the chain the wallet is connected to.",
+      )
+    }
+    const key = toKey(address, chain)
+    const previous = this.reservations.get(key) ?? Promise.resolve(0)
+    const reservation = previous.catch(noop).then(async () => {
+      const pendingNonce = await provider.getTransactionCount(address)
+      const nonce = Math.max(pendingNonce, this.nextNonces.get(key) ?? 0)
+      this.nextNonces.set(key, nonce + 1)
+      return nonce
+    })
+    this.reservations.set(key, reservation)
+    return reservation
+  }
+
+  /**
+   * Hands `nonce` out again when the transaction using it was never broadcast, i.e. the user rejected it.
+   * Only the last reserved nonce can be released, earlier ones are left for the node to resync.
+   */
+  release = (address: Address, chain: ChainIdentifier, nonce: number): void => {
+    const key = toKey(address, chain)
+    if (this.nextNonces.get(key) === nonce + 1) {
+      this.nextNonces.set(key, nonce)
+    }
+  }
+
+  /**
+   * Falls back to the node's pending count, i.e. after a transaction was dropped from the mempool.
+   */
+  reset = (address?: Address, chain?: ChainIdentifier): void => {
+    if (!address) {
+      this.nextNonces.clear()
+      return
+    }
+    Array.from(this.nextNonces.keys())
+      .filter(key =>
+        chain
+          ? key === toKey(address, chain)
+          : key.endsWith(`:${address.toLowerCase()}`),
+      )
+      .forEach(key => this.nextNonces.delete(key))
+  }
+}
@@ -5,24 +5,26 @@ import {
   PORTIS_API_KEY,
   WALLET_NAME,
 } from "../../../constants"
+import { getChainConfig } from "../chainRegistry"
 import Ethereum from "../networks/ethereum"
+import type { ProviderCapabilities } from "../provider"
+import { Eip1193Provider, toEip1193Provider } from "./eip1193"
 import Web3EvmProvider from "./web3EvmProvider"
 
 class PortisProvider extends Web3EvmProvider {
+  eip1193Provider: Eip1193Provider
   portis: TPortis
-  web3: Web3
 
   constructor(Portis: typeof TPortis) {
     super()
     const chainName = Ethereum.getChainName()
     const chain =
-      chainName === "ETHEREUM"
-        ? "mainnet"
-        : chainName === "MUMBAI"
-        ? "maticMumbai"
-        : CHAIN_IDENTIFIER_ENUM_MAPPING[chainName]
+      getChainConfig(chainName)?.aliases?.portis ??
+      CHAIN_IDENTIFIER_ENUM_MAPPING[chainName]
     this.portis = new Portis(PORTIS_API_KEY, chain)
-    this.web3 = new Web3(this.portis.provider as Web3.Provider)
+    this.eip1193Provider = toEip1193Provider(
+      this.portis.provider as Web3.Provider,
+    )
   }
 
   connect = async () => {
@@ -34,6 +36,21 @@ class PortisProvider extends Web3EvmProvider {
     await this.portis.logout()
   }
 
+  // Requesting accounts opens the Portis login when logged out
+  restoreSession = async () => {
+    const { result: isLoggedIn } = await this.portis.isLoggedIn()
+    return isLoggedIn ? this.getAccounts() : []
+  }
+
+  // Portis runs on the chain it was created for
+  getCapabilities = async (): Promise<ProviderCapabilities> => ({
+    ...(await super.getCapabilities()),
+    switchChain: false,
+    addChain: false,
+    disconnect: true,
+    supportedChains: [Ethereum.getChainName()],
+  })
+
   getName = () => {
     return WALLET_NAME.Portis
   }
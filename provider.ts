@@ -1,18 +1,78 @@
 import { Buffer } from "safe-buffer"
-import { ChainIdentifier, WALLET_NAME } from "../../constants"
+import { ChainIdentifier } from "../../constants"
 import { BigNumber } from "../helpers/numberUtils"
 import { Promiseable } from "../helpers/promise"
-import { AccountKey, Address } from "./chain"
+import { Abi, AbiFunction, AbiValue } from "./abi"
+import { AccountKey, Address, ChainData } from "./chain"
+import type { ProviderId } from "./providerRegistry"
+import { SignerType } from "./signatureVerification"
+import type {
+  default as TransactionTracker,
+  TrackerOptions,
+} from "./transactionTracker"
+import { TypedData, TypedDataStandard } from "./typedData"
 import { SignOptions } from "./wallet"
+import { UnsupportedMethodError } from "./walletErrors"
 
-export interface Transaction {
+interface BaseTransaction {
   source?: Address
   destination?: Address
   value?: BigNumber
   data?: string
+  gas?: BigNumber
+  nonce?: number
+  chainId?: number
+}
+
+export interface LegacyTransaction extends BaseTransaction {
+  gasPrice?: BigNumber
+  maxFeePerGas?: never
+  maxPriorityFeePerGas?: never
+}
+
+/**
+ * Type-2 transaction: https://eips.ethereum.org/EIPS/eip-1559
+ */
+export interface Eip1559Transaction extends BaseTransaction {
+  gasPrice?: never
+  maxFeePerGas?: BigNumber
+  maxPriorityFeePerGas?: BigNumber
+}
+
+export type Transaction = LegacyTransaction | Eip1559Transaction
+
+export type FeeStrategy = "slow" | "standard" | "fast"
+
+export type TransactOptions = {
+  /** Runs the transaction against the pending block before asking the wallet to sign it, throwing `ExecutionRevertedError` if it would revert */
+  simulate?: boolean
+  /** ABI of the destination contract, used to decode custom revert errors */
+  abi?: Abi
 }
 export type TransactionId = string
 
+export type SignatureResult = {
+  signature: string
+  signerType: SignerType
+}
+
+/**
+ * What a wallet supports, so the UI can adapt before the user runs into an `UnsupportedMethodError`.
+ */
+export type ProviderCapabilities = {
+  switchChain: boolean
+  addChain: boolean
+  typedDataStandards: ReadonlyArray<TypedDataStandard>
+  /** Whether `disconnect` ends the session, injected wallets can only be disconnected from the wallet itself */
+  disconnect: boolean
+  /** Whether `getBalance` and `readContract` can query the chain the wallet is connected to */
+  readChain: boolean
+  /** Whether nonces and fees can be set up front, for `Wallet.createTransactionQueue` */
+  transactionQueue: boolean
+  /** Omitted when the wallet does not restrict chains up front */
+  supportedChains?: ReadonlyArray<ChainIdentifier>
+}
+
 export default abstract class Provider {
   abstract connect(): Promiseable<void>
 
@@ -20,7 +80,18 @@ export default abstract class Provider {
 
   abstract getAccounts(): Promiseable<AccountKey[]>
 
-  abstract getName(): WALLET_NAME
+  /**
+   * Accounts the wallet still authorizes from a previous visit, without prompting the user.
+   * Called on page load instead of `connect`, resolves with no accounts when the session is gone.
+   */
+  async restoreSession(): Promise<AccountKey[]> {
+    return this.getAccounts()
+  }
+
+  /**
+   * The `WALLET_NAME` of built-in wallets, the registration id of others, i.e. ledger.
+   */
+  abstract getName(): ProviderId
 
   abstract onAccountsChange(
     handler: (accounts: AccountKey[]) => unknown,
@@ -31,18 +102,119 @@ export default abstract class Provider {
   ): () => unknown
 
   abstract sign(
-    message: string | Buffer,
+    message: string | Buffer | TypedData,
     address: string,
     options?: SignOptions,
   ): Promiseable<string>
 
   abstract signTypedData(
-    message: string | Buffer,
+    message: string | Buffer | TypedData,
     address: string,
     options?: SignOptions,
   ): Promiseable<string>
 
-  abstract transact(transaction: Transaction): Promiseable<TransactionId>
+  /**
+   * Like `sign`, also telling whether the signature comes from an externally owned or a contract account.
+   */
+  async signWithResult(
+    message: string | Buffer | TypedData,
+    address: string,
+    options?: SignOptions,
+  ): Promise<SignatureResult> {
+    return {
+      signature: await this.sign(message, address, options),
+      signerType: "EOA",
+    }
+  }
+
+  async signTypedDataWithResult(
+    message: string | Buffer | TypedData,
+    address: string,
+    options?: SignOptions,
+  ): Promise<SignatureResult> {
+    return {
+      signature: await this.signTypedData(message, address, options),
+      signerType: "EOA",
+    }
+  }
+
+  abstract transact(
+    transaction: Transaction,
+    options?: TransactOptions,
+  ): Promiseable<TransactionId>
 
   abstract getChain(): Promiseable<ChainIdentifier | undefined>
+
+  getCapabilities(): Promiseable<ProviderCapabilities> {
+    return {
+      switchChain: false,
+      addChain: false,
+      typedDataStandards: [],
+      disconnect: false,
+      readChain: false,
+      transactionQueue: false,
+    }
+  }
+
+  /**
+   * @throws UnsupportedMethodError unless the `readChain` capability is set
+   */
+  getBalance(_address: Address): Promiseable<BigNumber> {
+    throw new UnsupportedMethodError(
+      `Reading balances is not supported by ${this.getName()}`,
+    )
+  }
+
+  /**
+   * Calls a view function of `destination` from the connected account `source`, decoding its outputs.
+   * @throws UnsupportedMethodError unless the `readChain` capability is set
+   */
+  readContract(
+    _item: AbiFunction,
+    _args: ReadonlyArray<unknown>,
+    _addresses: { source: Address; destination: Address },
+  ): Promiseable<AbiValue[]> {
+    throw new UnsupportedMethodError(
+      `Reading contracts is not supported by ${this.getName()}`,
+    )
+  }
+
+  /**
+   * @returns The nonce of the next transaction of `address`, pending ones included
+   * @throws UnsupportedMethodError unless the `transactionQueue` capability is set
+   */
+  getTransactionCount(_address: Address): Promiseable<number> {
+    throw new UnsupportedMethodError(
+      `Reading nonces is not supported by ${this.getName()}`,
+    )
+  }
+
+  /**
+   * Fills in the gas and fees the wallet would otherwise pick.
+   * @throws UnsupportedMethodError unless the `transactionQueue` capability is set
+   */
+  populateTransaction<T extends Transaction>(_transaction: T): Promiseable<T> {
+    throw new UnsupportedMethodError(
+      `Populating transactions is not supported by ${this.getName()}`,
+    )
+  }
+
+  /**
+   * @throws UnsupportedMethodError unless the `switchChain` capability is set
+   */
+  switchChain(_chainData: ChainData): Promiseable<void> {
+    throw new UnsupportedMethodError(
+      `Switching chain is not supported by ${this.getName()}`,
+    )
+  }
+
+  /**
+   * @returns undefined when the provider cannot follow its transactions
+   */
+  trackTransaction(
+    _transactionId: TransactionId,
+    _options?: TrackerOptions,
+  ): TransactionTracker | undefined {
+    return undefined
+  }
 }
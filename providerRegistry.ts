@@ -0,0 +1,194 @@
+import chain from "lib/chain/chain"
+import Publisher from "lib/helpers/publisher"
+import { ChainIdentifier, WALLET_NAME } from "../../constants"
+import { getChainConfigs } from "./chainRegistry"
+import Provider from "./provider"
+import BrowserWeb3Provider from "./providers/browserWeb3Provider"
+import { discoverInjectedProviders } from "./providers/eip6963"
+
+/**
+ * A `WALLET_NAME` for built-in wallets, the rdns for EIP-6963 wallets (i.e. io.rabby), any unique string for others.
+ */
+export type ProviderId = WALLET_NAME | string
+
+export type ProviderRegistration = {
+  id: ProviderId
+  displayName: string
+  /** Url or data URI */
+  icon?: string
+  /** Creates a new provider instance, provider modules should be imported lazily from here */
+  load: () => Promise<Provider | undefined>
+  /** Omitted when every chain is supported */
+  supportedChains?: ReadonlyArray<ChainIdentifier>
+  /** Whether the wallet can be used in this browser, i.e. its extension is installed. Omitted when always available */
+  isAvailable?: () => boolean | Promise<boolean>
+  /** `load` prompts the user, i.e. for WebHID access, so remembered sessions are not restored on page load */
+  requiresUserGesture?: boolean
+}
+
+const registrationsById: Map<ProviderId, ProviderRegistration> = new Map()
+
+const publisher = new Publisher()
+
+/**
+ * Adds a provider, or replaces the one with the same id.
+ */
+export const registerProvider = (registration: ProviderRegistration): void => {
+  registrationsById.set(registration.id, registration)
+  publisher.publish()
+}
+
+export const unregisterProvider = (id: ProviderId): void => {
+  if (registrationsById.delete(id)) {
+    publisher.publish()
+  }
+}
+
+export const getProviderRegistration = (
+  id: ProviderId,
+): ProviderRegistration | undefined => registrationsById.get(id)
+
+export const getProviderRegistrations =
+  (): ReadonlyArray<ProviderRegistration> =>
+    Array.from(registrationsById.values())
+
+export const onProviderRegistrationsChange = (
+  handler: (registrations: ReadonlyArray<ProviderRegistration>) => unknown,
+): (() => void) =>
+  publisher.subscribe(() => handler(getProviderRegistrations()))
+
+/**
+ * Registers every wallet announcing itself through EIP-6963, keyed by rdns.
+ */
+export const registerInjectedProviders = async (): Promise<void> => {
+  const infos = await BrowserWeb3Provider.discover()
+  infos.forEach(info =>
+    registerProvider({
+      id: info.rdns,
+      displayName: info.name,
+      icon: info.icon,
+      load: () => BrowserWeb3Provider.initByRdns(info.rdns),
+    }),
+  )
+}
+
+/**
+ * Registrations usable in this browser, on `chain` when set.
+ */
+export const getAvailableProviders = async (
+  chain?: ChainIdentifier,
+): Promise<ReadonlyArray<ProviderRegistration>> => {
+  await registerInjectedProviders()
+  const registrations = getProviderRegistrations().filter(
+    ({ supportedChains }) =>
+      !chain || !supportedChains || supportedChains.includes(chain),
+  )
+  const availabilities = await Promise.all(
+    registrations.map(async ({ isAvailable }) => {
+      try {
+        return isAvailable ? await isAvailable() : true
+      } catch (error) {
+        return false
+      }
+    }),
+  )
+  return registrations.filter((_, i) => availabilities[i])
+}
+
+// Built-in wallets
+
+// Created by `chain`, so `chain.getProvider` and `chain.findProvider` keep seeing them
+const loadBuiltInWallet = (walletName: WALLET_NAME) => async () =>
+  chain.addProvider(walletName)
+
+// Every injected wallet registration checks the same provider, detected once
+let injectedWallet: Promise<BrowserWeb3Provider | undefined> | undefined
+
+const getInjectedWallet = (): Promise<BrowserWeb3Provider | undefined> => {
+  injectedWallet =
+    injectedWallet ?? BrowserWeb3Provider.init().catch(() => undefined)
+  return injectedWallet
+}
+
+const RDNS_BY_WALLET_NAME: Partial<Record<WALLET_NAME, string>> = {
+  [WALLET_NAME.MetaMask]: "io.metamask",
+  [WALLET_NAME.Trust]: "com.trustwallet.app",
+}
+
+/**
+ * Whether the wallet behind `window.ethereum`, or the one `id` stands for, announced itself through EIP-6963.
+ * Its rdns registration is listed instead, flags such as `isMetaMask` are spoofed by other wallets.
+ */
+const isAnnounced = async (
+  id: WALLET_NAME,
+  provider: BrowserWeb3Provider,
+): Promise<boolean> =>
+  // Already discovered by `getAvailableProviders`, no need to wait for slow extensions again
+  (await discoverInjectedProviders(0)).some(
+    detail =>
+      detail.provider === provider.eip1193Provider ||
+      detail.info.rdns === RDNS_BY_WALLET_NAME[id],
+  )
+
+const registerInjectedWallet = (id: WALLET_NAME, displayName: string) =>
+  registerProvider({
+    id,
+    displayName,
+    load: loadBuiltInWallet(id),
+    isAvailable: async () => {
+      const provider = await getInjectedWallet()
+      if (!provider || (await isAnnounced(id, provider))) {
+        return false
+      }
+      return id === WALLET_NAME.Native || provider.getName() === id
+    },
+  })
+
+registerInjectedWallet(WALLET_NAME.MetaMask, "MetaMask")
+registerInjectedWallet(WALLET_NAME.Trust, "Trust Wallet")
+registerInjectedWallet(WALLET_NAME.Dapper, "Dapper")
+registerInjectedWallet(WALLET_NAME.Native, "Browser wallet")
+
+registerProvider({
+  id: WALLET_NAME.WalletConnect,
+  displayName: "WalletConnect",
+  load: loadBuiltInWallet(WALLET_NAME.WalletConnect),
+})
+
+registerProvider({
+  id: WALLET_NAME.Portis,
+  displayName: "Portis",
+  load: loadBuiltInWallet(WALLET_NAME.Portis),
+  supportedChains: getChainConfigs()
+    .filter(({ aliases }) => aliases?.portis)
+    .map(({ identifier }) => identifier),
+})
+
+registerProvider({
+  id: "ledger",
+  displayName: "Ledger",
+  load: async () =>
+    (await import("./providers/hardwareWalletProvider")).createLedgerProvider(),
+  isAvailable: () => typeof navigator !== "undefined" && "hid" in navigator,
+  requiresUserGesture: true,
+})
+
+registerProvider({
+  id: "trezor",
+  displayName: "Trezor",
+  load: async () =>
+    (await import("./providers/hardwareWalletProvider")).createTrezorProvider(),
+  // The accounts picked on the device are not remembered, so it is connected again like Ledger
+  requiresUserGesture: true,
+})
+
+// Other built-in wallets, until they get a display name
+Object.values(WALLET_NAME)
+  .filter(walletName => !registrationsById.has(walletName))
+  .forEach(walletName =>
+    registerProvider({
+      id: walletName,
+      displayName: walletName,
+      load: loadBuiltInWallet(walletName),
+    }),
+  )
@@ -0,0 +1,164 @@
+import {
+  recoverPersonalSignature,
+  recoverTypedSignature,
+  recoverTypedSignature_v4,
+  recoverTypedSignatureLegacy,
+  typedSignatureHash,
+  TypedDataUtils,
+} from "eth-sig-util"
+import { bufferToHex, hashPersonalMessage, toBuffer } from "ethereumjs-util"
+import { Buffer } from "safe-buffer"
+import { ClientSignatureStandard } from "../graphql/__generated__/trader_sign_and_post.graphql"
+import { addressesEqual } from "../helpers/address"
+import { AbiFunction, decodeFunctionResult, encodeFunctionData } from "./abi"
+import { SignerMismatchError } from "./walletErrors"
+
+export type SignatureStandard = Exclude<
+  ClientSignatureStandard,
+  "%future added value"
+>
+
+/** Whether the signature was produced by an externally owned account or validated by a contract account (EIP-1271) */
+export type SignerType = "EOA" | "CONTRACT"
+
+export type SignedMessage = {
+  /**
+   * Utf8 text or raw bytes for `PERSONAL`, JSON encoded typed data otherwise.
+   * Typed data is a `[{ type, name, value }]` array for `TYPED_DATA_V1`.
+   */
+  message: string | Buffer
+  /** As returned by the wallet: 65 bytes r, s, v for EOAs, arbitrary bytes for contract accounts */
+  signature: string
+  standard: SignatureStandard
+}
+
+const parseTypedData = (message: string | Buffer) =>
+  JSON.parse(message.toString())
+
+/**
+ * @returns The lowercased address of the account which produced the signature
+ * @throws Error if the signature or typed data is malformed
+ */
+export const recoverSigner = ({
+  message,
+  signature,
+  standard,
+}: SignedMessage): string => {
+  switch (standard) {
+    case "PERSONAL":
+      return recoverPersonalSignature({
+        data: bufferToHex(
+          typeof message === "string" ? Buffer.from(message, "utf8") : message,
+        ),
+        sig: signature,
+      })
+    case "TYPED_DATA_V1":
+      return recoverTypedSignatureLegacy({
+        data: parseTypedData(message),
+        sig: signature,
+      })
+    case "TYPED_DATA_V3":
+      return recoverTypedSignature({
+        data: parseTypedData(message),
+        sig: signature,
+      })
+    case "TYPED_DATA_V4":
+      return recoverTypedSignature_v4({
+        data: parseTypedData(message),
+        sig: signature,
+      })
+  }
+}
+
+export const verifySignature = ({
+  address,
+  ...signedMessage
+}: SignedMessage & { address: string }): boolean => {
+  try {
+    return addressesEqual(recoverSigner(signedMessage), address)
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * @throws SignerMismatchError if the signature was not produced by `address`
+ */
+export const assertSignedBy = (
+  address: string,
+  signedMessage: SignedMessage,
+): void => {
+  let signer: string | undefined
+  try {
+    signer = recoverSigner(signedMessage)
+  } catch (error) {
+    throw new SignerMismatchError(address)
+  }
+  if (!addressesEqual(signer, address)) {
+    throw new SignerMismatchError(address, signer)
+  }
+}
+
+/**
+ * https://eips.ethereum.org/EIPS/eip-1271
+ */
+export const EIP1271_MAGIC_VALUE = "0x1626ba7e"
+
+const IS_VALID_SIGNATURE: AbiFunction = {
+  type: "function",
+  name: "isValidSignature",
+  inputs: [
+    { name: "hash", type: "bytes32" },
+    { name: "signature", type: "bytes" },
+  ],
+  outputs: [{ name: "magicValue", type: "bytes4" }],
+  stateMutability: "view",
+}
+
+/**
+ * @returns The 32 bytes digest the account actually signs for the message and standard
+ */
+export const hashSignedMessage = ({
+  message,
+  standard,
+}: Omit<SignedMessage, "signature">): Buffer => {
+  switch (standard) {
+    case "PERSONAL":
+      return hashPersonalMessage(
+        typeof message === "string" ? Buffer.from(message, "utf8") : message,
+      )
+    case "TYPED_DATA_V1":
+      return toBuffer(typedSignatureHash(parseTypedData(message)))
+    case "TYPED_DATA_V3":
+    case "TYPED_DATA_V4":
+      return TypedDataUtils.sign(
+        TypedDataUtils.sanitizeData(parseTypedData(message)),
+        standard === "TYPED_DATA_V4",
+      )
+  }
+}
+
+/**
+ * Asks the contract account at `address` whether it considers the signature valid.
+ * @param call Performs an eth_call of `data` against `address`, returning the result data
+ */
+export const verifyContractSignature = async (
+  call: (data: string) => Promise<string>,
+  { address, ...signedMessage }: SignedMessage & { address: string },
+): Promise<boolean> => {
+  try {
+    const [magicValue] = decodeFunctionResult(
+      IS_VALID_SIGNATURE,
+      await call(
+        encodeFunctionData(IS_VALID_SIGNATURE, [
+          bufferToHex(hashSignedMessage(signedMessage)),
+          signedMessage.signature,
+        ]),
+      ),
+    )
+    return magicValue === EIP1271_MAGIC_VALUE
+  } catch (error) {
+    console.info(`EIP-1271 verification failed for ${address}`, error)
+    return false
+  }
+}
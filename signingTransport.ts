@@ -0,0 +1,127 @@
+import { isHexString, toBuffer } from "ethereumjs-util"
+import { Buffer } from "safe-buffer"
+import { addressesEqual } from "lib/helpers/address"
+import { UnsignedTransaction } from "../transactionSerializer"
+import type { TypedDataStandard } from "../typedData"
+import { UnauthorizedError, UnsupportedMethodError } from "../walletErrors"
+import { Eip1193Provider, RequestArguments, RpcTransaction } from "./eip1193"
+
+/**
+ * An account holding its key outside of a browser wallet, i.e. in memory or on a hardware device.
+ */
+export interface AccountSigner {
+  address: string
+  /** @returns 65 bytes r, s, v signature of the EIP-191 personal message */
+  signPersonalMessage(message: Buffer): Promise<string>
+  /** @returns 65 bytes r, s, v signature of the JSON encoded typed data */
+  signTypedData(data: string, standard: TypedDataStandard): Promise<string>
+  /** @returns The signed raw transaction */
+  signTransaction(transaction: UnsignedTransaction): Promise<string>
+}
+
+const TYPED_DATA_STANDARD_BY_METHOD: Record<string, TypedDataStandard> = {
+  eth_signTypedData: "TYPED_DATA_V1",
+  eth_signTypedData_v1: "TYPED_DATA_V1",
+  eth_signTypedData_v3: "TYPED_DATA_V3",
+  eth_signTypedData_v4: "TYPED_DATA_V4",
+}
+
+/**
+ * Exposes accounts signing locally as an EIP-1193 provider.
+ * Signing methods are answered by the matching signer, everything else goes to `rpcProvider`, transactions as eth_sendRawTransaction.
+ * @param getSigners Read on every request, so accounts can be selected after creation, i.e. on a hardware wallet
+ */
+export const createSigningEip1193Provider = (
+  getSigners: () => ReadonlyArray<AccountSigner>,
+  rpcProvider: Eip1193Provider,
+): Eip1193Provider => {
+  const getSigner = (address: string | undefined) => {
+    const signers = getSigners()
+    const signer = address
+      ? signers.find(s => addressesEqual(s.address, address))
+      : signers[0]
+    if (!signer) {
+      throw new UnauthorizedError(`No local signer for account ${address}`)
+    }
+    return signer
+  }
+
+  const rpcRequest = <T>(method: string, params: unknown[] = []) =>
+    rpcProvider.request<T>({ method, params })
+
+  // Only fills what the caller left out, `Web3EvmProvider.populateTransaction` takes care of fees and gas usually
+  const populateTransaction = async (
+    transaction: RpcTransaction,
+  ): Promise<UnsignedTransaction> => {
+    const from = getSigner(transaction.from).address
+    const [nonce, chainId, gas, gasPrice] = await Promise.all([
+      transaction.nonce ??
+        rpcRequest<string>("eth_getTransactionCount", [from, "pending"]),
+      transaction.chainId ?? rpcRequest<string>("eth_chainId"),
+      transaction.gas ??
+        rpcRequest<string>("eth_estimateGas", [{ ...transaction, from }]),
+      transaction.gasPrice === undefined &&
+      transaction.maxFeePerGas === undefined
+        ? rpcRequest<string>("eth_gasPrice")
+        : transaction.gasPrice,
+    ])
+    return { ...transaction, from, nonce, chainId, gas, gasPrice }
+  }
+
+  const signTransaction = async (transaction: RpcTransaction) => {
+    const unsignedTransaction = await populateTransaction(transaction)
+    return getSigner(unsignedTransaction.from).signTransaction(
+      unsignedTransaction,
+    )
+  }
+
+  return {
+    request: async <T>({ method, params }: RequestArguments): Promise<T> => {
+      const args = (params ?? []) as unknown[]
+      switch (method) {
+        case "eth_accounts":
+        case "eth_requestAccounts":
+          return getSigners().map(s => s.address.toLowerCase()) as unknown as T
+        case "personal_sign": {
+          const [message, address] = args as [string, string]
+          return getSigner(address).signPersonalMessage(
+            isHexString(message)
+              ? toBuffer(message)
+              : Buffer.from(message, "utf8"),
+          ) as unknown as Promise<T>
+        }
+        case "eth_signTypedData":
+        case "eth_signTypedData_v1":
+        case "eth_signTypedData_v3":
+        case "eth_signTypedData_v4": {
+          const [address, data] = args as [string, unknown]
+          return getSigner(address).signTypedData(
+            typeof data === "string" ? data : JSON.stringify(data),
+            TYPED_DATA_STANDARD_BY_METHOD[method],
+          ) as unknown as Promise<T>
+        }
+        case "eth_signTransaction":
+          return signTransaction(
+            args[0] as RpcTransaction,
+          ) as unknown as Promise<T>
+        case "eth_sendTransaction":
+          return rpcRequest<T>("eth_sendRawTransaction", [
+            await signTransaction(args[0] as RpcTransaction),
+          ])
+        case "wallet_switchEthereumChain": {
+          const [{ chainId }] = args as [{ chainId: string }]
+          if (Number(chainId) !== Number(await rpcRequest("eth_chainId"))) {
+            throw new UnsupportedMethodError(
+              "Local signers are bound to the chain of their RPC url",
+            )
+          }
+          return null as unknown as T
+        }
+        case "wallet_addEthereumChain":
+        case "eth_sign":
+          throw new UnsupportedMethodError(`${method} is not supported`)
+      }
+      return rpcProvider.request<T>({ method, params })
+    },
+  }
+}
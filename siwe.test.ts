@@ -0,0 +1,205 @@
+import {
+  bufferToHex,
+  ecsign,
+  hashPersonalMessage,
+  privateToAddress,
+  toChecksumAddress,
+  toRpcSig,
+} from "ethereumjs-util"
+import { Buffer } from "safe-buffer"
+import {
+  buildSiweMessage,
+  generateSiweNonce,
+  parseSiweMessage,
+  SiweMessage,
+  verifySiweMessage,
+} from "./siwe"
+
+const PRIVATE_KEY = Buffer.from("11".repeat(32), "hex")
+
+const ADDRESS = toChecksumAddress(bufferToHex(privateToAddress(PRIVATE_KEY)))
+
+const FIELDS: SiweMessage = {
+  domain: "opensea.io",
+  address: ADDRESS,
+  statement: "Sign in to OpenSea",
+  uri: "https://opensea.io/login",
+  version: "1",
+  chainId: 1,
+  nonce: "abcdef1234",
+  issuedAt: "2022-03-01T00:00:00.000Z",
+  expirationTime: "2022-03-02T00:00:00.000Z",
+  resources: ["https://opensea.io/terms"],
+}
+
+const sign = (message: string) => {
+  const { v, r, s } = ecsign(
+    hashPersonalMessage(Buffer.from(message, "utf8")),
+    PRIVATE_KEY,
+  )
+  return toRpcSig(v, r, s)
+}
+
+describe("buildSiweMessage", () => {
+  it("follows the EIP-4361 layout", () => {
+    expect(buildSiweMessage(FIELDS)).toBe(
+      [
+        "opensea.io wants you to sign in with your Ethereum account:",
+        ADDRESS,
+        "",
+        "Sign in to OpenSea",
+        "",
+        "URI: https://opensea.io/login",
+        "Version: 1",
+        "Chain ID: 1",
+        "Nonce: abcdef1234",
+        "Issued At: 2022-03-01T00:00:00.000Z",
+        "Expiration Time: 2022-03-02T00:00:00.000Z",
+        "Resources:",
+        "- https://opensea.io/terms",
+      ].join("\n"),
+    )
+  })
+
+  it("checksums the address", () => {
+    expect(
+      buildSiweMessage({ ...FIELDS, address: ADDRESS.toLowerCase() }).split(
+        "\n",
+      )[1],
+    ).toBe(ADDRESS)
+  })
+
+  it("rejects statements with line breaks", () => {
+    expect(() =>
+      buildSiweMessage({ ...FIELDS, statement: "Sign in\nnow" }),
+    ).toThrow()
+  })
+})
+
+describe("parseSiweMessage", () => {
+  it("parses what buildSiweMessage builds", () => {
+    expect(parseSiweMessage(buildSiweMessage(FIELDS))).toEqual(FIELDS)
+  })
+
+  it("parses messages without statement nor optional fields", () => {
+    const fields: SiweMessage = {
+      domain: "opensea.io",
+      address: ADDRESS,
+      uri: "https://opensea.io",
+      version: "1",
+      chainId: 137,
+      nonce: "12345678",
+      issuedAt: "2022-03-01T00:00:00.000Z",
+    }
+
+    expect(parseSiweMessage(buildSiweMessage(fields))).toEqual(fields)
+  })
+
+  it.each([
+    ["a message without the SIWE header", "Sign in to opensea.io"],
+    [
+      "an address without EIP-55 checksum",
+      buildSiweMessage(FIELDS).replace(ADDRESS, ADDRESS.toLowerCase()),
+    ],
+    [
+      "an unsupported version",
+      buildSiweMessage(FIELDS).replace("Version: 1", "Version: 2"),
+    ],
+    [
+      "a nonce shorter than 8 characters",
+      buildSiweMessage(FIELDS).replace("Nonce: abcdef1234", "Nonce: abc"),
+    ],
+    [
+      "a missing URI",
+      buildSiweMessage(FIELDS).replace("URI: https://opensea.io/login\n", ""),
+    ],
+    [
+      "a malformed field",
+      buildSiweMessage(FIELDS).replace("Chain ID: 1", "Chain ID 1"),
+    ],
+    [
+      "a malformed resource",
+      buildSiweMessage(FIELDS).replace("- https", "* https"),
+    ],
+  ])("rejects %s", (_, message) => {
+    expect(() => parseSiweMessage(message)).toThrow()
+  })
+})
+
+describe("verifySiweMessage", () => {
+  const message = buildSiweMessage(FIELDS)
+  const time = new Date("2022-03-01T12:00:00.000Z")
+
+  it("accepts a message signed by its address", () => {
+    expect(
+      verifySiweMessage({
+        message,
+        signature: sign(message),
+        domain: "opensea.io",
+        nonce: "abcdef1234",
+        time,
+      }),
+    ).toEqual({ success: true, fields: FIELDS })
+  })
+
+  it("rejects a signature of another message", () => {
+    expect(
+      verifySiweMessage({ message, signature: sign("hello"), time }),
+    ).toMatchObject({ success: false, error: "invalid-signature" })
+  })
+
+  it("rejects another domain or nonce", () => {
+    const signature = sign(message)
+
+    expect(
+      verifySiweMessage({ message, signature, domain: "evil.io", time }),
+    ).toMatchObject({ success: false, error: "domain-mismatch" })
+    expect(
+      verifySiweMessage({ message, signature, nonce: "other1234", time }),
+    ).toMatchObject({ success: false, error: "nonce-mismatch" })
+  })
+
+  it("rejects expired messages", () => {
+    expect(
+      verifySiweMessage({
+        message,
+        signature: sign(message),
+        time: new Date("2022-03-03T00:00:00.000Z"),
+      }),
+    ).toMatchObject({ success: false, error: "expired" })
+  })
+
+  it("reports malformed messages", () => {
+    expect(
+      verifySiweMessage({ message: "hello", signature: sign("hello"), time }),
+    ).toEqual({ success: false, error: "malformed-message" })
+  })
+})
+
+describe("generateSiweNonce", () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("generates alphanumeric nonces of the requested length", () => {
+    const nonce = generateSiweNonce(32)
+
+    expect(nonce).toHaveLength(32)
+    expect(nonce).toMatch(/^[a-zA-Z0-9]+$/)
+  })
+
+  it("skips the bytes that would bias the alphabet", () => {
+    jest
+      .spyOn(crypto, "getRandomValues")
+      .mockImplementationOnce(array => {
+        ;(array as Uint8Array).set([255, 248, 0, 61, 62, 247, 1, 2])
+        return array
+      })
+      .mockImplementationOnce(array => {
+        ;(array as Uint8Array).fill(3)
+        return array
+      })
+
+    expect(generateSiweNonce(8)).toBe("A9A9BCDD")
+  })
+})
@@ -0,0 +1,243 @@
+import { isValidAddress, toChecksumAddress } from "ethereumjs-util"
+import { verifySignature } from "./signatureVerification"
+
+/**
+ * Fields of a Sign-In with Ethereum message: https://eips.ethereum.org/EIPS/eip-4361
+ */
+export type SiweMessage = {
+  /** RFC 3986 authority requesting the signing, i.e. opensea.io */
+  domain: string
+  address: string
+  /** Human readable assertion the user signs, cannot contain line breaks */
+  statement?: string
+  /** RFC 3986 URI referring to the resource that is the subject of the signing */
+  uri: string
+  version: "1"
+  chainId: number
+  /** At least 8 alphanumeric characters, provided by the server to prevent replays */
+  nonce: string
+  /** ISO 8601 datetime */
+  issuedAt: string
+  expirationTime?: string
+  notBefore?: string
+  requestId?: string
+  resources?: ReadonlyArray<string>
+}
+
+export type SiweVerificationError =
+  | "malformed-message"
+  | "invalid-signature"
+  | "domain-mismatch"
+  | "nonce-mismatch"
+  | "expired"
+  | "not-yet-valid"
+
+export type SiweVerificationResult =
+  | { success: true; fields: SiweMessage }
+  | { success: false; error: SiweVerificationError; fields?: SiweMessage }
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:"
+
+const NONCE_REGEX = /^[a-zA-Z0-9]{8,}$/
+
+const NONCE_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789"
+
+// Higher bytes are skipped, mapping them with a modulo would favor the first characters of the alphabet
+const NONCE_BYTE_LIMIT = 256 - (256 % NONCE_ALPHABET.length)
+
+const isValidDate = (date: string | undefined) =>
+  date === undefined || !Number.isNaN(Date.parse(date))
+
+const validateSiweMessage = (fields: SiweMessage): void => {
+  const {
+    domain,
+    address,
+    statement,
+    nonce,
+    issuedAt,
+    expirationTime,
+    notBefore,
+  } = fields
+  if (!domain || /\s/.test(domain)) {
+    throw new Error(`Invalid SIWE domain ${domain}`)
+  }
+  if (!isValidAddress(address)) {
+    throw new Error(`Invalid SIWE address ${address}`)
+  }
+  if (statement?.includes("\n")) {
+    throw new Error("SIWE statement cannot contain line breaks")
+  }
+  if (!NONCE_REGEX.test(nonce)) {
+    throw new Error("SIWE nonce must be at least 8 alphanumeric characters")
+  }
+  if (![issuedAt, expirationTime, notBefore].every(isValidDate)) {
+    throw new Error("SIWE dates must be ISO 8601 datetimes")
+  }
+}
+
+export const generateSiweNonce = (length = 16): string => {
+  let nonce = ""
+  while (nonce.length < length) {
+    nonce += Array.from(crypto.getRandomValues(new Uint8Array(length)))
+      .filter(byte => byte < NONCE_BYTE_LIMIT)
+      .map(byte => NONCE_ALPHABET[byte % NONCE_ALPHABET.length])
+      .join("")
+  }
+  return nonce.slice(0, length)
+}
+
+export const buildSiweMessage = (fields: SiweMessage): string => {
+  validateSiweMessage(fields)
+  const {
+    domain,
+    address,
+    statement,
+    uri,
+    version,
+    chainId,
+    nonce,
+    issuedAt,
+    expirationTime,
+    notBefore,
+    requestId,
+    resources,
+  } = fields
+  return [
+    `${domain}${HEADER_SUFFIX}`,
+    toChecksumAddress(address),
+    "",
+    ...(statement !== undefined ? [statement, ""] : [""]),
+    `URI: ${uri}`,
+    `Version: ${version}`,
+    `Chain ID: ${chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`,
+    ...(expirationTime ? [`Expiration Time: ${expirationTime}`] : []),
+    ...(notBefore ? [`Not Before: ${notBefore}`] : []),
+    ...(requestId !== undefined ? [`Request ID: ${requestId}`] : []),
+    ...(resources?.length
+      ? ["Resources:", ...resources.map(resource => `- ${resource}`)]
+      : []),
+  ].join("\n")
+}
+
+/**
+ * @throws Error if the message does not follow the EIP-4361 format, which requires an EIP-55 checksummed address
+ */
+export const parseSiweMessage = (message: string): SiweMessage => {
+  const lines = message.split("\n")
+  const [header, address, emptyLine, ...rest] = lines
+  if (!header?.endsWith(HEADER_SUFFIX) || emptyLine !== "") {
+    throw new Error("Not a SIWE message")
+  }
+  if (!isValidAddress(address) || address !== toChecksumAddress(address)) {
+    throw new Error(`SIWE address ${address} is not EIP-55 checksummed`)
+  }
+
+  let fieldLines = rest
+  let statement: string | undefined
+  if (rest[0] === "") {
+    fieldLines = rest.slice(1)
+  } else if (rest[1] === "") {
+    statement = rest[0]
+    fieldLines = rest.slice(2)
+  } else {
+    throw new Error("Malformed SIWE statement")
+  }
+
+  const resourcesIndex = fieldLines.indexOf("Resources:")
+  const values: Record<string, string> = {}
+  ;(resourcesIndex === -1
+    ? fieldLines
+    : fieldLines.slice(0, resourcesIndex)
+  ).forEach(line => {
+    const separatorIndex = line.indexOf(": ")
+    if (separatorIndex === -1) {
+      throw new Error(`Malformed SIWE field ${line}`)
+    }
+    values[line.slice(0, separatorIndex)] = line.slice(separatorIndex + 2)
+  })
+  const resources =
+    resourcesIndex === -1
+      ? undefined
+      : fieldLines.slice(resourcesIndex + 1).map(line => {
+          if (!line.startsWith("- ")) {
+            throw new Error(`Malformed SIWE resource ${line}`)
+          }
+          return line.slice(2)
+        })
+
+  if (values["Version"] !== "1") {
+    throw new Error(`Unsupported SIWE version ${values["Version"]}`)
+  }
+  const fields: SiweMessage = {
+    domain: header.slice(0, -HEADER_SUFFIX.length),
+    address,
+    statement,
+    uri: values["URI"],
+    version: "1",
+    chainId: Number(values["Chain ID"]),
+    nonce: values["Nonce"],
+    issuedAt: values["Issued At"],
+    expirationTime: values["Expiration Time"],
+    notBefore: values["Not Before"],
+    requestId: values["Request ID"],
+    resources,
+  }
+  validateSiweMessage(fields)
+  if (!fields.uri || !Number.isInteger(fields.chainId) || !fields.issuedAt) {
+    throw new Error("SIWE message is missing required fields")
+  }
+  return fields
+}
+
+/**
+ * Checks the message is well formed, signed by its address and currently valid.
+ * `domain` and `nonce` should be the ones the server expects for this session.
+ */
+export const verifySiweMessage = ({
+  message,
+  signature,
+  domain,
+  nonce,
+  time = new Date(),
+}: {
+  message: string
+  signature: string
+  domain?: string
+  nonce?: string
+  time?: Date
+}): SiweVerificationResult => {
+  let fields: SiweMessage
+  try {
+    fields = parseSiweMessage(message)
+  } catch (error) {
+    return { success: false, error: "malformed-message" }
+  }
+
+  if (domain !== undefined && fields.domain !== domain) {
+    return { success: false, error: "domain-mismatch", fields }
+  }
+  if (nonce !== undefined && fields.nonce !== nonce) {
+    return { success: false, error: "nonce-mismatch", fields }
+  }
+  if (fields.expirationTime && time >= new Date(fields.expirationTime)) {
+    return { success: false, error: "expired", fields }
+  }
+  if (fields.notBefore && time < new Date(fields.notBefore)) {
+    return { success: false, error: "not-yet-valid", fields }
+  }
+
+  if (
+    !verifySignature({
+      address: fields.address,
+      message,
+      signature,
+      standard: "PERSONAL",
+    })
+  ) {
+    return { success: false, error: "invalid-signature", fields }
+  }
+  return { success: true, fields }
+}
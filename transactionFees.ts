@@ -0,0 +1,92 @@
+import { last } from "lodash"
+import { BigNumber, bn } from "lib/helpers/numberUtils"
+import { FeeStrategy } from "../provider"
+import { fromHexQuantity, toHexQuantity } from "./eip1193"
+
+type FeeRequest = <T>(
+  method: "eth_feeHistory" | "eth_gasPrice",
+  params?: unknown[],
+) => Promise<T>
+
+type FeeHistory = {
+  baseFeePerGas: string[]
+  reward?: string[][]
+}
+
+export type FeeData =
+  | { gasPrice: BigNumber }
+  | { maxFeePerGas: BigNumber; maxPriorityFeePerGas: BigNumber }
+
+const FEE_HISTORY_BLOCK_COUNT = 5
+
+const REWARD_PERCENTILE_BY_STRATEGY: Record<FeeStrategy, number> = {
+  slow: 10,
+  standard: 50,
+  fast: 90,
+}
+
+// Percentage applied to eth_gasPrice on chains without EIP-1559
+const GAS_PRICE_PERCENTAGE_BY_STRATEGY: Record<FeeStrategy, number> = {
+  slow: 90,
+  standard: 100,
+  fast: 125,
+}
+
+// The base fee can grow 12.5% per full block, doubling it keeps the transaction valid for ~6 full blocks
+const BASE_FEE_MULTIPLIER = 2
+
+const estimateEip1559Fees = async (
+  request: FeeRequest,
+  strategy: FeeStrategy,
+): Promise<FeeData | undefined> => {
+  const { baseFeePerGas, reward = [] } = await request<FeeHistory>(
+    "eth_feeHistory",
+    [
+      toHexQuantity(FEE_HISTORY_BLOCK_COUNT),
+      "latest",
+      [REWARD_PERCENTILE_BY_STRATEGY[strategy]],
+    ],
+  )
+  // The last entry is the base fee of the next block
+  const nextBaseFee = fromHexQuantity(last(baseFeePerGas) ?? "0x0")
+  if (nextBaseFee.isZero() || !reward.length) {
+    return undefined
+  }
+  const maxPriorityFeePerGas = reward
+    .reduce(
+      (sum, [blockReward]) => sum.plus(fromHexQuantity(blockReward)),
+      bn(0),
+    )
+    .idiv(reward.length)
+  return {
+    maxFeePerGas: nextBaseFee
+      .times(BASE_FEE_MULTIPLIER)
+      .plus(maxPriorityFeePerGas),
+    maxPriorityFeePerGas,
+  }
+}
+
+/**
+ * Estimates fees for the next block, using eth_feeHistory when the chain supports EIP-1559 and eth_gasPrice otherwise.
+ */
+export const estimateFees = async (
+  request: FeeRequest,
+  strategy: FeeStrategy,
+): Promise<FeeData> => {
+  try {
+    const fees = await estimateEip1559Fees(request, strategy)
+    if (fees) {
+      return fees
+    }
+  } catch (_) {
+    console.info(
+      "eth_feeHistory is not supported, falling back to eth_gasPrice",
+    )
+  }
+  const gasPrice = fromHexQuantity(await request<string>("eth_gasPrice"))
+  return {
+    gasPrice: gasPrice
+      .times(GAS_PRICE_PERCENTAGE_BY_STRATEGY[strategy])
+      .idiv(100),
+  }
+}
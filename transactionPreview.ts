@@ -0,0 +1,316 @@
+import { ChainIdentifier } from "../../constants"
+import { BigNumber, bn } from "../helpers/numberUtils"
+import {
+  Abi,
+  AbiFunction,
+  AbiParameter,
+  AbiValue,
+  decodeParameters,
+  findAbiItemBySelector,
+  formatSignature,
+  getSelector,
+} from "./abi"
+import { Address } from "./chain"
+import { getChainConfig, getChainConfigByChainId } from "./chainRegistry"
+import { ERC20_ABI, MAX_UINT256 } from "./erc20"
+import { ERC721_ERC20_OVERLAP_ABI, NFT_ABI, NftStandard } from "./nft"
+import { Transaction } from "./provider"
+import { TypedData } from "./typedData"
+
+export type PreviewArgument = {
+  name: string
+  type: string
+  value: unknown
+  /** Human readable value, token amounts are scaled by their decimals */
+  formattedValue: string
+}
+
+export type PreviewWarningKind =
+  | "APPROVAL"
+  | "UNLIMITED_APPROVAL"
+  | "OPERATOR_APPROVAL"
+  | "PERMIT"
+  | "UNKNOWN_FUNCTION"
+
+export type PreviewWarning = {
+  kind: PreviewWarningKind
+  /** Account allowed to move the user's assets, for approvals */
+  spender?: Address
+  message: string
+}
+
+export type TransactionPreview = {
+  kind: "TRANSACTION"
+  destination?: Address
+  /** Native currency sent along, scaled by its decimals */
+  value: BigNumber
+  nativeCurrencySymbol?: string
+  /** Undefined when the calldata could not be decoded */
+  functionName?: string
+  signature?: string
+  arguments: PreviewArgument[]
+  warnings: PreviewWarning[]
+}
+
+export type TypedDataPreview = {
+  kind: "TYPED_DATA"
+  primaryType: string
+  /** Name of the dApp or contract from the EIP-712 domain */
+  domainName?: string
+  verifyingContract?: Address
+  arguments: PreviewArgument[]
+  warnings: PreviewWarning[]
+}
+
+export type PreviewOptions = {
+  /** Decoded first, before the selector registry */
+  abi?: Abi
+  /** Decimals of the token the transaction or permit is about, used to format its amounts */
+  decimals?: number
+  /** Names of the token amount parameters of `abi` functions, ERC-20 ones are known */
+  amountParameters?: ReadonlyArray<string>
+  /** Chain of the native currency, defaults to the chain of the transaction */
+  chain?: ChainIdentifier
+  /** Standard of the destination contract, ERC-721 approve and transferFrom are decoded as ERC-20 ones unless set */
+  standard?: NftStandard | "ERC20"
+}
+
+const functionsBySelector: Map<string, AbiFunction> = new Map()
+
+/**
+ * Makes the functions of `abi` decodable by every preview, i.e. the marketplace contracts.
+ */
+export const registerFunctions = (abi: Abi): void => {
+  abi.forEach(item => {
+    if (item.type === "function") {
+      functionsBySelector.set(getSelector(item), item)
+    }
+  })
+}
+
+export const getFunctionBySelector = (
+  selector: string,
+): AbiFunction | undefined => functionsBySelector.get(selector.toLowerCase())
+
+const ERC20_SELECTORS = new Set(
+  ERC20_ABI.map(item => getSelector(item as AbiFunction)),
+)
+
+// Half of the uint256 range, what wallets commonly consider unlimited
+const UNLIMITED_THRESHOLD = MAX_UINT256.dividedToIntegerBy(2)
+
+const UNKNOWN_FUNCTION_WARNING: PreviewWarning = {
+  kind: "UNKNOWN_FUNCTION",
+  message: "The contract call could not be decoded.",
+}
+
+const isBigNumber = (value: unknown): value is BigNumber =>
+  typeof value === "object" && value !== null && "shiftedBy" in value
+
+const formatValue = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatValue).join(", ")}]`
+  }
+  if (isBigNumber(value)) {
+    return value.toString(10)
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value)
+}
+
+const formatAmount = (value: unknown, decimals?: number): string => {
+  const amount = bn(value as BigNumber | string)
+  if (amount.isGreaterThan(UNLIMITED_THRESHOLD)) {
+    return "Unlimited"
+  }
+  return decimals === undefined
+    ? amount.toString(10)
+    : bn(amount, decimals).toString(10)
+}
+
+const toArguments = (
+  parameters: ReadonlyArray<AbiParameter>,
+  values: ReadonlyArray<unknown>,
+  isAmount: (parameter: AbiParameter) => boolean,
+  decimals?: number,
+): PreviewArgument[] =>
+  parameters.map((parameter, i) => ({
+    name: parameter.name || `arg${i}`,
+    type: parameter.type,
+    value: values[i],
+    formattedValue: isAmount(parameter)
+      ? formatAmount(values[i], decimals)
+      : formatValue(values[i]),
+  }))
+
+const getApprovalWarnings = (
+  functionName: string | undefined,
+  args: ReadonlyArray<PreviewArgument>,
+  standard: PreviewOptions["standard"],
+): PreviewWarning[] => {
+  const valueOf = (name: string) => args.find(arg => arg.name === name)?.value
+  switch (functionName) {
+    case "approve": {
+      if (standard === "ERC721") {
+        const spender = valueOf("to") as Address
+        return [
+          {
+            kind: "APPROVAL",
+            spender,
+            message: `${spender} will be able to transfer item ${formatValue(
+              valueOf("tokenId"),
+            )} from your wallet.`,
+          },
+        ]
+      }
+      const spender = valueOf("spender") as Address
+      const isUnlimited = bn(valueOf("value") as BigNumber).isGreaterThan(
+        UNLIMITED_THRESHOLD,
+      )
+      return [
+        {
+          kind: isUnlimited ? "UNLIMITED_APPROVAL" : "APPROVAL",
+          spender,
+          message: isUnlimited
+            ? `${spender} will be able to transfer all of this token from your wallet.`
+            : `${spender} will be able to transfer this amount from your wallet.`,
+        },
+      ]
+    }
+    case "setApprovalForAll": {
+      const operator = valueOf("operator") as Address
+      return valueOf("approved")
+        ? [
+            {
+              kind: "OPERATOR_APPROVAL",
+              spender: operator,
+              message: `${operator} will be able to transfer all of your items in this collection.`,
+            },
+          ]
+        : []
+    }
+    default:
+      return []
+  }
+}
+
+/**
+ * Explains a transaction before it is sent, for confirmation modals.
+ */
+export const previewTransaction = (
+  transaction: Transaction,
+  {
+    abi = [],
+    decimals,
+    amountParameters = [],
+    chain,
+    standard = "ERC20",
+  }: PreviewOptions = {},
+): TransactionPreview => {
+  const chainConfig = chain
+    ? getChainConfig(chain)
+    : transaction.chainId !== undefined
+    ? getChainConfigByChainId(transaction.chainId)
+    : undefined
+  const nativeCurrency = chainConfig?.nativeCurrency
+  const { data = "0x", destination } = transaction
+  const preview: TransactionPreview = {
+    kind: "TRANSACTION",
+    destination,
+    value: bn(transaction.value ?? 0, nativeCurrency?.decimals ?? 18),
+    nativeCurrencySymbol: nativeCurrency?.symbol,
+    arguments: [],
+    warnings: [],
+  }
+  if (data.length <= 2) {
+    return preview
+  }
+
+  const abiItem =
+    findAbiItemBySelector(abi, data) ??
+    (standard === "ERC721"
+      ? findAbiItemBySelector(ERC721_ERC20_OVERLAP_ABI, data)
+      : undefined)
+  const item =
+    abiItem?.type === "function"
+      ? abiItem
+      : getFunctionBySelector(data.slice(0, 10))
+  if (!item) {
+    return { ...preview, warnings: [UNKNOWN_FUNCTION_WARNING] }
+  }
+
+  let values: AbiValue[]
+  try {
+    values = decodeParameters(item.inputs, `0x${data.slice(10)}`)
+  } catch (error) {
+    // The selector matched, but the data does not fit its inputs, i.e. a selector collision
+    return { ...preview, warnings: [UNKNOWN_FUNCTION_WARNING] }
+  }
+
+  const isErc20 = standard === "ERC20" && ERC20_SELECTORS.has(getSelector(item))
+  const args = toArguments(
+    item.inputs,
+    values,
+    ({ name, type }) =>
+      type.startsWith("uint") &&
+      ((isErc20 && name === "value") || amountParameters.includes(name ?? "")),
+    decimals,
+  )
+  return {
+    ...preview,
+    functionName: item.name,
+    signature: formatSignature(item),
+    arguments: args,
+    warnings: getApprovalWarnings(item.name, args, standard),
+  }
+}
+
+const getPermitMessage = (
+  spender: Address,
+  message: TypedData["message"],
+  args: ReadonlyArray<PreviewArgument>,
+): string | undefined => {
+  // DAI style permits approve everything or nothing
+  if ("allowed" in message) {
+    return String(message.allowed) === "true"
+      ? `This signature lets ${spender} transfer all of this token from your wallet, without another confirmation.`
+      : undefined
+  }
+  const amount = args.find(arg => arg.name === "value")?.formattedValue
+  return amount === "Unlimited"
+    ? `This signature lets ${spender} transfer all of this token from your wallet, without another confirmation.`
+    : `This signature lets ${spender} transfer ${amount} of this token from your wallet, without another confirmation.`
+}
+
+/**
+ * Explains EIP-712 typed data before it is signed, flagging EIP-2612 and DAI permits.
+ */
+export const previewTypedData = (
+  { domain, types, primaryType, message }: TypedData,
+  { decimals }: Pick<PreviewOptions, "decimals"> = {},
+): TypedDataPreview => {
+  const isPermit = primaryType === "Permit"
+  const fields = types[primaryType] ?? []
+  const args = toArguments(
+    fields,
+    fields.map(({ name }) => message[name]),
+    ({ name }) => isPermit && name === "value",
+    decimals,
+  )
+  const spender = message.spender as Address | undefined
+  const permitMessage =
+    isPermit && spender ? getPermitMessage(spender, message, args) : undefined
+  return {
+    kind: "TYPED_DATA",
+    primaryType,
+    domainName: domain.name,
+    verifyingContract: domain.verifyingContract,
+    arguments: args,
+    warnings:
+      spender && permitMessage
+        ? [{ kind: "PERMIT", spender, message: permitMessage }]
+        : [],
+  }
+}
+
+registerFunctions(ERC20_ABI)
+registerFunctions(NFT_ABI)
@@ -0,0 +1,271 @@
+import { noop } from "lodash"
+import { BigNumber } from "../helpers/numberUtils"
+import { Promiseable } from "../helpers/promise"
+import Publisher from "../helpers/publisher"
+import NonceManager from "./nonceManager"
+import Provider, { Transaction, TransactionId } from "./provider"
+import TransactionTracker, { TrackerOptions } from "./transactionTracker"
+import {
+  TransactionDroppedError,
+  UserRejectedRequestError,
+  WalletError,
+} from "./walletErrors"
+
+export type QueueTransaction = Transaction & {
+  source: NonNullable<Transaction["source"]>
+}
+
+export type QueueStepState =
+  | "queued"
+  | "submitted"
+  | "mined"
+  | "failed"
+  | "cancelled"
+
+export type QueueStep = {
+  transaction: QueueTransaction
+  state: QueueStepState
+  /** Kept across attempts while it was not used on chain, so a re-priced attempt replaces the previous one */
+  nonce?: number
+  transactionId?: TransactionId
+  error?: unknown
+  attempts: number
+}
+
+/** `cancel` skips the remaining steps, `reprice` retries the failed step and sends the rest with higher fees */
+export type QueueFailureAction = "cancel" | "reprice"
+
+export type TransactionQueueOptions = TrackerOptions & {
+  /** Waits for each transaction to be mined before sending the next one, otherwise they are only sent in order. Defaults to true */
+  waitForMined?: boolean
+  /** Called when a step is rejected before being sent or is dropped, reverted and cancelled ones cancel the rest of the queue. Defaults to cancelling */
+  onFailure?: (
+    step: QueueStep,
+    error: unknown,
+  ) => Promiseable<QueueFailureAction>
+  /** Fee multiplier applied on each re-price, nodes require at least 10% more to replace a pending transaction */
+  repriceFactor?: number
+  /** Attempts per step, re-priced ones included, after which the queue is cancelled */
+  maxAttempts?: number
+  /** Called with the tracker of every transaction sent */
+  onTrack?: (tracker: TransactionTracker) => unknown
+}
+
+// Only these can go through with another attempt, a reverted or cancelled transaction would fail the same way
+const canRetry = (error: unknown): boolean =>
+  error instanceof UserRejectedRequestError ||
+  error instanceof TransactionDroppedError
+
+/**
+ * Sends a sequence of transactions from one account in order, i.e. approve then list,
+ * with nonces from a shared `NonceManager` so they never collide with each other.
+ */
+export default class TransactionQueue {
+  private _steps: QueueStep[]
+
+  private provider: Provider
+
+  private nonceManager: NonceManager
+
+  private options: Required<
+    Pick<
+      TransactionQueueOptions,
+      "waitForMined" | "onFailure" | "repriceFactor" | "maxAttempts" | "onTrack"
+    >
+  >
+
+  private trackerOptions: TrackerOptions
+
+  private publisher: Publisher = new Publisher()
+
+  private feeMultiplier = 1
+
+  private isCancelled = false
+
+  private running?: Promise<ReadonlyArray<QueueStep>>
+
+  constructor(
+    provider: Provider,
+    nonceManager: NonceManager,
+    transactions: ReadonlyArray<QueueTransaction>,
+    {
+      waitForMined = true,
+      onFailure = () => "cancel",
+      repriceFactor = 1.125,
+      maxAttempts = 3,
+      onTrack = noop,
+      ...trackerOptions
+    }: TransactionQueueOptions = {},
+  ) {
+    this.provider = provider
+    this.nonceManager = nonceManager
+    this._steps = transactions.map(transaction => ({
+      transaction,
+      state: "queued",
+      attempts: 0,
+    }))
+    this.options = {
+      waitForMined,
+      onFailure,
+      repriceFactor,
+      maxAttempts,
+      onTrack,
+    }
+    this.trackerOptions = trackerOptions
+  }
+
+  get steps(): ReadonlyArray<QueueStep> {
+    return this._steps
+  }
+
+  onChange = (onChange: (queue: TransactionQueue) => unknown): (() => void) =>
+    this.publisher.subscribe(() => onChange(this))
+
+  /**
+   * Calls made while the queue runs share that run, so a step is never sent twice with the same nonce.
+   * @returns The steps once every one was sent, or the queue was cancelled
+   */
+  run = (): Promise<ReadonlyArray<QueueStep>> => {
+    if (!this.running) {
+      this.running = this.runSteps().finally(() => {
+        this.running = undefined
+      })
+    }
+    return this.running
+  }
+
+  /**
+   * Skips the steps not sent yet, transactions already sent are left as they are.
+   */
+  cancel = (): void => {
+    this.isCancelled = true
+    this._steps = this._steps.map(step =>
+      step.state === "queued" ? { ...step, state: "cancelled" } : step,
+    )
+    this.publisher.publish()
+  }
+
+  private runSteps = async (): Promise<ReadonlyArray<QueueStep>> => {
+    for (let i = 0; i < this._steps.length && !this.isCancelled; i++) {
+      while (!this.isCancelled && !this.isSent(i)) {
+        try {
+          await this.submit(i)
+        } catch (error) {
+          const step = this.updateStep(i, { state: "failed", error })
+          const action =
+            canRetry(error) && step.attempts < this.options.maxAttempts
+              ? await this.options.onFailure(step, error)
+              : "cancel"
+          if (action === "cancel") {
+            this.cancel()
+          } else {
+            this.feeMultiplier *= this.options.repriceFactor
+          }
+        }
+      }
+    }
+    return this._steps
+  }
+
+  private isSent = (index: number): boolean =>
+    ["submitted", "mined"].includes(this._steps[index].state)
+
+  private updateStep = (
+    index: number,
+    update: Partial<QueueStep>,
+  ): QueueStep => {
+    const step = { ...this._steps[index], ...update }
+    this._steps = [
+      ...this._steps.slice(0, index),
+      step,
+      ...this._steps.slice(index + 1),
+    ]
+    this.publisher.publish()
+    return step
+  }
+
+  private submit = async (index: number): Promise<void> => {
+    const step = this.updateStep(index, {
+      attempts: this._steps[index].attempts + 1,
+      error: undefined,
+    })
+    const { source } = step.transaction
+    const chain = await this.provider.getChain()
+    const nonce =
+      step.nonce ?? (await this.nonceManager.reserve(this.provider, source))
+
+    let transactionId: TransactionId
+    try {
+      transactionId = await this.provider.transact(
+        await this.price({ ...step.transaction, nonce }),
+      )
+    } catch (error) {
+      // Never broadcast, the next attempt or step can use the nonce
+      if (chain) {
+        this.nonceManager.release(source, chain, nonce)
+      }
+      this.updateStep(index, { nonce: undefined })
+      throw error
+    }
+
+    const tracker = this.provider.trackTransaction(
+      transactionId,
+      this.trackerOptions,
+    )
+    this.updateStep(index, { state: "submitted", nonce, transactionId })
+    if (!tracker) {
+      return
+    }
+    this.options.onTrack(tracker)
+    if (!this.options.waitForMined) {
+      return
+    }
+
+    const status = await tracker.wait()
+    switch (status.state) {
+      case "replaced":
+        if (status.reason === "speedup") {
+          this.updateStep(index, {
+            state: "mined",
+            transactionId: status.replacementId,
+          })
+          return
+        }
+        this.updateStep(index, { nonce: undefined })
+        throw new WalletError("The transaction was cancelled from the wallet.")
+      case "failed":
+        this.updateStep(index, { nonce: undefined })
+        throw new WalletError("The transaction reverted.", {
+          data: status.receipt,
+        })
+      case "dropped":
+        // The nonce is free again, keeping it lets a re-priced attempt take its place
+        if (chain) {
+          this.nonceManager.reset(source, chain)
+        }
+        throw new TransactionDroppedError()
+      default:
+        this.updateStep(index, { state: "mined" })
+    }
+  }
+
+  private price = async (
+    transaction: QueueTransaction,
+  ): Promise<QueueTransaction> => {
+    if (this.feeMultiplier === 1) {
+      return transaction
+    }
+    const { gasPrice, maxFeePerGas, maxPriorityFeePerGas, ...populated } =
+      await this.provider.populateTransaction(transaction)
+    const bump = (fee: BigNumber) =>
+      fee.times(this.feeMultiplier).integerValue()
+    if (gasPrice) {
+      return { ...populated, gasPrice: bump(gasPrice) }
+    }
+    return {
+      ...populated,
+      maxFeePerGas: maxFeePerGas && bump(maxFeePerGas),
+      maxPriorityFeePerGas: maxPriorityFeePerGas && bump(maxPriorityFeePerGas),
+    }
+  }
+}
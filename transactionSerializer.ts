@@ -0,0 +1,143 @@
+import {
+  bufferToHex,
+  ecsign,
+  keccak256,
+  rlp,
+  toBuffer,
+  unpadBuffer,
+} from "ethereumjs-util"
+import { Buffer } from "safe-buffer"
+import { RpcTransaction } from "./providers/eip1193"
+import { InvalidParamsError } from "./walletErrors"
+
+/**
+ * A transaction with every field needed to sign it, quantities as hex strings.
+ * `type` 0x2 or fee caps make it an EIP-1559 transaction, otherwise a legacy EIP-155 one.
+ */
+export type UnsignedTransaction = RpcTransaction & {
+  nonce: string
+  gas: string
+  chainId: string
+}
+
+export type TransactionSignature = {
+  /** Recovery id of the signature, 0 or 1 */
+  recovery: number
+  r: Buffer
+  s: Buffer
+}
+
+const EIP1559_TYPE_PREFIX = Buffer.from([2])
+
+const quantity = (value: string | number | undefined) =>
+  value === undefined ? Buffer.alloc(0) : unpadBuffer(toBuffer(value))
+
+export const isEip1559Transaction = (transaction: RpcTransaction): boolean =>
+  transaction.type === "0x2" ||
+  transaction.maxFeePerGas !== undefined ||
+  transaction.maxPriorityFeePerGas !== undefined
+
+/**
+ * @param signature Omitted to get the payload to sign
+ * @returns The RLP encoded transaction, as sent with eth_sendRawTransaction when signed
+ * @throws InvalidParamsError when a fee field is missing, fees are expected to be filled in by `populateTransaction`
+ */
+export const serializeTransaction = (
+  transaction: UnsignedTransaction,
+  signature?: TransactionSignature,
+): string => {
+  const { nonce, gas, chainId, to, value, data } = transaction
+  const destination = to ? toBuffer(to) : Buffer.alloc(0)
+  const input = toBuffer(data ?? "0x")
+
+  if (isEip1559Transaction(transaction)) {
+    if (
+      transaction.maxFeePerGas === undefined ||
+      transaction.maxPriorityFeePerGas === undefined
+    ) {
+      throw new InvalidParamsError(
+        "EIP-1559 transactions need both maxFeePerGas and maxPriorityFeePerGas.",
+      )
+    }
+    const fields = [
+      quantity(chainId),
+      quantity(nonce),
+      quantity(transaction.maxPriorityFeePerGas),
+      quantity(transaction.maxFeePerGas),
+      quantity(gas),
+      destination,
+      quantity(value),
+      input,
+      // Access list
+      [],
+    ]
+    return bufferToHex(
+      Buffer.concat([
+        EIP1559_TYPE_PREFIX,
+        rlp.encode(
+          signature
+            ? [
+                ...fields,
+                quantity(signature.recovery),
+                unpadBuffer(signature.r),
+                unpadBuffer(signature.s),
+              ]
+            : fields,
+        ),
+      ]),
+    )
+  }
+
+  if (transaction.gasPrice === undefined) {
+    throw new InvalidParamsError("Legacy transactions need a gasPrice.")
+  }
+  const fields = [
+    quantity(nonce),
+    quantity(transaction.gasPrice),
+    quantity(gas),
+    destination,
+    quantity(value),
+    input,
+  ]
+  return bufferToHex(
+    rlp.encode(
+      signature
+        ? [
+            ...fields,
+            // EIP-155 replay protection
+            quantity(signature.recovery + Number(chainId) * 2 + 35),
+            unpadBuffer(signature.r),
+            unpadBuffer(signature.s),
+          ]
+        : [...fields, quantity(chainId), Buffer.alloc(0), Buffer.alloc(0)],
+    ),
+  )
+}
+
+/**
+ * Devices return the `v` of the signed transaction, some of them truncated to a byte for large EIP-155 chain ids.
+ */
+export const getRecoveryFromV = (
+  transaction: UnsignedTransaction,
+  v: number,
+): number => {
+  if (isEip1559Transaction(transaction)) {
+    return v >= 27 ? v - 27 : v
+  }
+  return (((v - (Number(transaction.chainId) * 2 + 35)) % 256) + 256) % 256
+}
+
+export const getTransactionSigningHash = (
+  transaction: UnsignedTransaction,
+): Buffer => keccak256(toBuffer(serializeTransaction(transaction)))
+
+/**
+ * @returns The signed raw transaction
+ */
+export const signTransaction = (
+  transaction: UnsignedTransaction,
+  privateKey: Buffer,
+): string => {
+  const { v, r, s } = ecsign(getTransactionSigningHash(transaction), privateKey)
+  return serializeTransaction(transaction, { recovery: v - 27, r, s })
+}
@@ -0,0 +1,178 @@
+import { BigNumber } from "../helpers/numberUtils"
+import {
+  Abi,
+  AbiError,
+  AbiValue,
+  decodeParameters,
+  findAbiItemBySelector,
+  formatSignature,
+} from "./abi"
+import { Transaction } from "./provider"
+import { fromHexQuantity, toRpcTransaction } from "./providers/eip1193"
+import { ExecutionRevertedError, toWalletError } from "./walletErrors"
+
+type SimulationRequest = <T>(
+  method: "eth_call" | "eth_estimateGas",
+  params?: unknown[],
+) => Promise<T>
+
+export type RevertReason =
+  | { type: "error"; message: string }
+  | { type: "panic"; code: number; description: string }
+  | { type: "custom"; name: string; signature: string; args: AbiValue[] }
+  | { type: "unknown"; data?: string; message?: string }
+
+export type SimulationResult =
+  | { success: true; gasEstimate: BigNumber; returnData: string }
+  | { success: false; reason: RevertReason }
+
+const ERROR_STRING: AbiError = {
+  type: "error",
+  name: "Error",
+  inputs: [{ name: "message", type: "string" }],
+}
+
+const PANIC: AbiError = {
+  type: "error",
+  name: "Panic",
+  inputs: [{ name: "code", type: "uint256" }],
+}
+
+// https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_DESCRIPTIONS: Record<number, string> = {
+  0x00: "generic compiler panic",
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "incorrectly encoded storage byte array",
+  0x31: "pop on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to a zero-initialized function",
+}
+
+const HEX_DATA_REGEX = /^0x([0-9a-fA-F]{2})*$/
+
+/**
+ * Nodes and wallets nest revert data differently, i.e. `error.data`, `error.data.data` or `error.data.originalError.data`.
+ */
+export const getRevertData = (error: unknown): string | undefined => {
+  let current: unknown = error
+  for (let depth = 0; depth < 4 && current; depth++) {
+    if (typeof current === "string") {
+      return HEX_DATA_REGEX.test(current) ? current : undefined
+    }
+    const { data, originalError } = current as {
+      data?: unknown
+      originalError?: unknown
+    }
+    current = data ?? originalError
+  }
+  return undefined
+}
+
+export const decodeRevertReason = (
+  data: string | undefined,
+  abi: Abi = [],
+  message?: string,
+): RevertReason => {
+  if (!data || data.length < 10) {
+    return { type: "unknown", data, message }
+  }
+  try {
+    const item = findAbiItemBySelector([ERROR_STRING, PANIC, ...abi], data)
+    if (!item) {
+      return { type: "unknown", data, message }
+    }
+    const args = decodeParameters(item.inputs, `0x${data.slice(10)}`)
+    if (item === ERROR_STRING) {
+      return { type: "error", message: args[0] as string }
+    }
+    if (item === PANIC) {
+      const code = (args[0] as BigNumber).toNumber()
+      return {
+        type: "panic",
+        code,
+        description: PANIC_DESCRIPTIONS[code] ?? "unknown panic",
+      }
+    }
+    return {
+      type: "custom",
+      name: item.name,
+      signature: formatSignature(item),
+      args,
+    }
+  } catch (error) {
+    // Malformed revert data
+    return { type: "unknown", data, message }
+  }
+}
+
+export const formatRevertReason = (reason: RevertReason): string => {
+  switch (reason.type) {
+    case "error":
+      return reason.message
+    case "panic":
+      return `panic: ${reason.description}`
+    case "custom":
+      return `${reason.name}(${reason.args.map(String).join(", ")})`
+    case "unknown":
+      return reason.message ?? "unknown reason"
+  }
+}
+
+/**
+ * Runs the transaction against the pending block without sending it, decoding the revert reason when it would fail.
+ * @param abi Used to decode custom errors of the destination contract
+ */
+export const simulateTransaction = async (
+  request: SimulationRequest,
+  transaction: Transaction,
+  abi?: Abi,
+): Promise<SimulationResult> => {
+  const { source, destination, value, data } = transaction
+  const rpcTransaction = toRpcTransaction({ source, destination, value, data })
+  try {
+    const returnData = await request<string>("eth_call", [
+      rpcTransaction,
+      "pending",
+    ])
+    const gasEstimate = fromHexQuantity(
+      await request<string>("eth_estimateGas", [rpcTransaction]),
+    )
+    return { success: true, gasEstimate, returnData }
+  } catch (error) {
+    const walletError = toWalletError(error)
+    const revertData = getRevertData(walletError.data)
+    const isRevert =
+      walletError instanceof ExecutionRevertedError ||
+      revertData !== undefined ||
+      /revert/i.test(walletError.message)
+    if (!isRevert) {
+      throw walletError
+    }
+    return {
+      success: false,
+      reason: decodeRevertReason(revertData, abi, walletError.message),
+    }
+  }
+}
+
+/**
+ * @throws ExecutionRevertedError carrying the decoded reason when the simulation fails
+ */
+export const assertSimulationSucceeds = async (
+  request: SimulationRequest,
+  transaction: Transaction,
+  abi?: Abi,
+): Promise<BigNumber> => {
+  const result = await simulateTransaction(request, transaction, abi)
+  if (!result.success) {
+    throw new ExecutionRevertedError(
+      `This transaction will fail: ${formatRevertReason(result.reason)}`,
+      { reason: result.reason },
+    )
+  }
+  return result.gasEstimate
+}
@@ -0,0 +1,305 @@
+import { addressesEqual } from "../helpers/address"
+import { BigNumber } from "../helpers/numberUtils"
+import Publisher from "../helpers/publisher"
+import { TransactionId } from "./provider"
+import { fromHexQuantity, toHexQuantity } from "./providers/eip1193"
+
+type TrackerRequest = <T>(
+  method:
+    | "eth_blockNumber"
+    | "eth_getBlockByNumber"
+    | "eth_getTransactionByHash"
+    | "eth_getTransactionCount"
+    | "eth_getTransactionReceipt",
+  params?: unknown[],
+) => Promise<T>
+
+type RpcTransaction = {
+  hash: string
+  from: string
+  to: string | null
+  nonce: string
+  value: string
+  input: string
+}
+
+type RpcReceipt = {
+  transactionHash: string
+  blockNumber: string
+  status: string
+  gasUsed: string
+  effectiveGasPrice?: string
+}
+
+export type TransactionReceipt = {
+  transactionHash: TransactionId
+  blockNumber: number
+  succeeded: boolean
+  gasUsed: BigNumber
+  effectiveGasPrice?: BigNumber
+}
+
+export type TransactionStatus =
+  | { state: "pending" }
+  | { state: "mined"; receipt: TransactionReceipt; confirmations: number }
+  | { state: "confirmed"; receipt: TransactionReceipt; confirmations: number }
+  | { state: "failed"; receipt: TransactionReceipt }
+  | { state: "dropped" }
+  | {
+      state: "replaced"
+      reason: "speedup" | "cancel"
+      replacementId: TransactionId
+    }
+
+export type TrackerOptions = {
+  /** Number of blocks, including the one it was mined in, after which the transaction is considered confirmed */
+  confirmations?: number
+  pollInterval?: number
+  /** How long a transaction may be missing from the node's mempool before it is considered dropped */
+  dropTimeout?: number
+}
+
+const FINAL_STATES: ReadonlyArray<TransactionStatus["state"]> = [
+  "confirmed",
+  "failed",
+  "dropped",
+  "replaced",
+]
+
+const toReceipt = (receipt: RpcReceipt): TransactionReceipt => ({
+  transactionHash: receipt.transactionHash,
+  blockNumber: Number(receipt.blockNumber),
+  succeeded: Number(receipt.status) === 1,
+  gasUsed: fromHexQuantity(receipt.gasUsed),
+  effectiveGasPrice:
+    receipt.effectiveGasPrice !== undefined
+      ? fromHexQuantity(receipt.effectiveGasPrice)
+      : undefined,
+})
+
+/**
+ * Follows a submitted transaction until it is confirmed, fails, is dropped from the mempool
+ * or is replaced by another transaction with the same nonce (speed up or cancel).
+ */
+export default class TransactionTracker {
+  readonly transactionId: TransactionId
+
+  status: TransactionStatus = { state: "pending" }
+
+  private request: TrackerRequest
+
+  private options: Required<TrackerOptions>
+
+  private publisher: Publisher = new Publisher()
+
+  private transaction?: RpcTransaction
+
+  private startBlock?: number
+
+  private lastSeenAt = Date.now()
+
+  private timeout?: ReturnType<typeof setTimeout>
+
+  // Set before the first update resolves, so a second `start` does not begin another polling loop
+  private isRunning = false
+
+  constructor(
+    request: TrackerRequest,
+    transactionId: TransactionId,
+    {
+      confirmations = 1,
+      pollInterval = 4000,
+      dropTimeout = 10 * 60 * 1000,
+    }: TrackerOptions = {},
+  ) {
+    this.request = request
+    this.transactionId = transactionId
+    this.options = { confirmations, pollInterval, dropTimeout }
+  }
+
+  get isFinal(): boolean {
+    return FINAL_STATES.includes(this.status.state)
+  }
+
+  onChange = (
+    onChange: (tracker: TransactionTracker) => unknown,
+  ): (() => void) => this.publisher.subscribe(() => onChange(this))
+
+  start = (): void => {
+    if (!this.isRunning && !this.isFinal) {
+      this.isRunning = true
+      this.poll()
+    }
+  }
+
+  stop = (): void => {
+    this.isRunning = false
+    if (this.timeout !== undefined) {
+      clearTimeout(this.timeout)
+      this.timeout = undefined
+    }
+  }
+
+  /**
+   * @returns The first final status reached by the transaction
+   */
+  wait = (): Promise<TransactionStatus> => {
+    if (this.isFinal) {
+      return Promise.resolve(this.status)
+    }
+    return new Promise(resolve => {
+      const unsubscribe = this.onChange(({ isFinal, status }) => {
+        if (isFinal) {
+          unsubscribe()
+          resolve(status)
+        }
+      })
+      this.start()
+    })
+  }
+
+  private poll = async (): Promise<void> => {
+    this.timeout = undefined
+    try {
+      await this.update()
+    } catch (error) {
+      console.error(error)
+    }
+    // Stopped meanwhile, or restarted and another update already scheduled the next poll
+    if (!this.isRunning || this.timeout !== undefined) {
+      return
+    }
+    if (this.isFinal) {
+      this.isRunning = false
+      return
+    }
+    this.timeout = setTimeout(this.poll, this.options.pollInterval)
+  }
+
+  private setStatus = (status: TransactionStatus): void => {
+    this.status = status
+    this.publisher.publish()
+  }
+
+  private getBlockNumber = async (): Promise<number> =>
+    Number(await this.request<string>("eth_blockNumber"))
+
+  private update = async (): Promise<void> => {
+    if (this.startBlock === undefined) {
+      this.startBlock = await this.getBlockNumber()
+    }
+
+    const receipt = await this.request<RpcReceipt | null>(
+      "eth_getTransactionReceipt",
+      [this.transactionId],
+    )
+    if (receipt) {
+      return this.updateFromReceipt(toReceipt(receipt))
+    }
+
+    const transaction = await this.request<RpcTransaction | null>(
+      "eth_getTransactionByHash",
+      [this.transactionId],
+    )
+    if (transaction) {
+      this.transaction = transaction
+      this.lastSeenAt = Date.now()
+    }
+
+    if (this.transaction) {
+      const { from, nonce } = this.transaction
+      const minedNonce = Number(
+        await this.request<string>("eth_getTransactionCount", [from, "latest"]),
+      )
+      if (minedNonce > Number(nonce)) {
+        // Mined since the receipt was requested
+        const lateReceipt = await this.request<RpcReceipt | null>(
+          "eth_getTransactionReceipt",
+          [this.transactionId],
+        )
+        if (lateReceipt) {
+          return this.updateFromReceipt(toReceipt(lateReceipt))
+        }
+        // The nonce was used by another transaction
+        const replacement = await this.findReplacement(this.transaction)
+        return this.setStatus(
+          replacement
+            ? {
+                state: "replaced",
+                reason: this.isCancellation(replacement) ? "cancel" : "speedup",
+                replacementId: replacement.hash,
+              }
+            : { state: "dropped" },
+        )
+      }
+    }
+
+    if (
+      !transaction &&
+      Date.now() - this.lastSeenAt > this.options.dropTimeout
+    ) {
+      return this.setStatus({ state: "dropped" })
+    }
+    if (this.status.state !== "pending") {
+      // Mined in a block that got reorged out
+      this.setStatus({ state: "pending" })
+    }
+  }
+
+  private updateFromReceipt = async (
+    receipt: TransactionReceipt,
+  ): Promise<void> => {
+    if (!receipt.succeeded) {
+      return this.setStatus({ state: "failed", receipt })
+    }
+    const confirmations =
+      (await this.getBlockNumber()) - receipt.blockNumber + 1
+    if (
+      this.status.state === "mined" &&
+      this.status.confirmations === confirmations
+    ) {
+      return
+    }
+    this.setStatus({
+      state:
+        confirmations >= this.options.confirmations ? "confirmed" : "mined",
+      receipt,
+      confirmations,
+    })
+  }
+
+  private findReplacement = async ({
+    from,
+    nonce,
+  }: RpcTransaction): Promise<RpcTransaction | undefined> => {
+    const latestBlock = await this.getBlockNumber()
+    for (
+      let blockNumber = latestBlock;
+      blockNumber >= (this.startBlock ?? latestBlock);
+      blockNumber--
+    ) {
+      const block = await this.request<{
+        transactions: RpcTransaction[]
+      } | null>("eth_getBlockByNumber", [toHexQuantity(blockNumber), true])
+      const replacement = block?.transactions.find(
+        t =>
+          t.hash.toLowerCase() !== this.transactionId.toLowerCase() &&
+          addressesEqual(t.from, from) &&
+          Number(t.nonce) === Number(nonce),
+      )
+      if (replacement) {
+        return replacement
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Wallets cancel by sending a zero value, empty data transaction to self with the same nonce.
+   */
+  private isCancellation = (replacement: RpcTransaction): boolean =>
+    !!replacement.to &&
+    addressesEqual(replacement.to, replacement.from) &&
+    fromHexQuantity(replacement.value).isZero() &&
+    (replacement.input === "0x" || replacement.input === "")
+}
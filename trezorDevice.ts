@@ -0,0 +1,155 @@
+import { addHexPrefix, toBuffer } from "ethereumjs-util"
+import { Buffer } from "safe-buffer"
+import {
+  getRecoveryFromV,
+  isEip1559Transaction,
+  serializeTransaction,
+  UnsignedTransaction,
+} from "../transactionSerializer"
+import type { TypedDataStandard } from "../typedData"
+import {
+  UnsupportedMethodError,
+  UserRejectedRequestError,
+  WalletError,
+} from "../walletErrors"
+import { HardwareDevice } from "./hardwareWallet"
+
+type TrezorResponse<T> =
+  | { success: true; payload: T }
+  | { success: false; payload: { error: string; code?: string } }
+
+type TrezorSignature = { address: string; signature: string }
+
+type TrezorTransaction = {
+  to?: string
+  value: string
+  data: string
+  chainId: number
+  nonce: string
+  gasLimit: string
+  gasPrice?: string
+  maxFeePerGas?: string
+  maxPriorityFeePerGas?: string
+}
+
+/**
+ * The Ethereum methods of `@trezor/connect-web` we rely on, injectable so tests can run against an emulator or stubs.
+ */
+export interface TrezorConnectLike {
+  ethereumGetAddress(params: {
+    path: string
+    showOnTrezor: boolean
+  }): Promise<TrezorResponse<{ address: string }>>
+  ethereumSignMessage(params: {
+    path: string
+    message: string
+    hex: boolean
+  }): Promise<TrezorResponse<TrezorSignature>>
+  ethereumSignTypedData(params: {
+    path: string
+    data: unknown
+    metamask_v4_compat: boolean
+  }): Promise<TrezorResponse<TrezorSignature>>
+  ethereumSignTransaction(params: {
+    path: string
+    transaction: TrezorTransaction
+  }): Promise<TrezorResponse<{ v: string; r: string; s: string }>>
+}
+
+const CANCELLED_CODES = ["Failure_ActionCancelled", "Method_Cancel"]
+
+const unwrap = <T>(response: TrezorResponse<T>): T => {
+  if (response.success) {
+    return response.payload
+  }
+  const { error, code } = response.payload
+  if (code && CANCELLED_CODES.includes(code)) {
+    throw new UserRejectedRequestError(error)
+  }
+  throw new WalletError(error, { data: { code } })
+}
+
+const toTrezorTransaction = (
+  transaction: UnsignedTransaction,
+): TrezorTransaction => ({
+  to: transaction.to,
+  value: transaction.value ?? "0x0",
+  data: transaction.data ?? "0x",
+  chainId: Number(transaction.chainId),
+  nonce: transaction.nonce,
+  gasLimit: transaction.gas,
+  ...(isEip1559Transaction(transaction)
+    ? {
+        maxFeePerGas: transaction.maxFeePerGas,
+        maxPriorityFeePerGas: transaction.maxPriorityFeePerGas,
+      }
+    : { gasPrice: transaction.gasPrice }),
+})
+
+export default class TrezorDevice implements HardwareDevice {
+  readonly name = "trezor"
+
+  connect: TrezorConnectLike
+
+  constructor(connect: TrezorConnectLike) {
+    this.connect = connect
+  }
+
+  getAddress = async (path: string): Promise<string> => {
+    const { address } = unwrap(
+      await this.connect.ethereumGetAddress({ path, showOnTrezor: false }),
+    )
+    return address.toLowerCase()
+  }
+
+  signPersonalMessage = async (
+    path: string,
+    message: Buffer,
+  ): Promise<string> => {
+    const { signature } = unwrap(
+      await this.connect.ethereumSignMessage({
+        path,
+        message: message.toString("hex"),
+        hex: true,
+      }),
+    )
+    return addHexPrefix(signature)
+  }
+
+  signTypedData = async (
+    path: string,
+    data: string,
+    standard: TypedDataStandard,
+  ): Promise<string> => {
+    if (standard === "TYPED_DATA_V1") {
+      throw new UnsupportedMethodError(
+        "Trezor does not support legacy typed data signatures.",
+      )
+    }
+    const { signature } = unwrap(
+      await this.connect.ethereumSignTypedData({
+        path,
+        data: JSON.parse(data),
+        metamask_v4_compat: standard === "TYPED_DATA_V4",
+      }),
+    )
+    return addHexPrefix(signature)
+  }
+
+  signTransaction = async (
+    path: string,
+    transaction: UnsignedTransaction,
+  ): Promise<string> => {
+    const { v, r, s } = unwrap(
+      await this.connect.ethereumSignTransaction({
+        path,
+        transaction: toTrezorTransaction(transaction),
+      }),
+    )
+    return serializeTransaction(transaction, {
+      recovery: getRecoveryFromV(transaction, Number(v)),
+      r: toBuffer(addHexPrefix(r)),
+      s: toBuffer(addHexPrefix(s)),
+    })
+  }
+}
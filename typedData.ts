@@ -0,0 +1,264 @@
+import { isValidAddress } from "ethereumjs-util"
+import { bn } from "../helpers/numberUtils"
+import type { SignatureStandard } from "./signatureVerification"
+import { InvalidParamsError } from "./walletErrors"
+
+export type TypedDataField = {
+  name: string
+  type: string
+}
+
+export type TypedDataDomain = {
+  name?: string
+  version?: string
+  chainId?: number | string
+  verifyingContract?: string
+  salt?: string
+}
+
+/**
+ * https://eips.ethereum.org/EIPS/eip-712
+ */
+export type TypedData = {
+  domain: TypedDataDomain
+  /** `EIP712Domain` can be omitted, it is derived from `domain` */
+  types: Record<string, ReadonlyArray<TypedDataField>>
+  primaryType: string
+  message: Record<string, unknown>
+}
+
+/** Legacy eth_signTypedData format, a flat list of values without domain */
+export type TypedDataV1 = ReadonlyArray<{
+  type: string
+  name: string
+  value: unknown
+}>
+
+export type TypedDataStandard = Exclude<SignatureStandard, "PERSONAL">
+
+const DOMAIN_FIELDS: ReadonlyArray<TypedDataField> = [
+  { name: "name", type: "string" },
+  { name: "version", type: "string" },
+  { name: "chainId", type: "uint256" },
+  { name: "verifyingContract", type: "address" },
+  { name: "salt", type: "bytes32" },
+]
+
+const IDENTIFIER_REGEX = /^[A-Za-z_$][A-Za-z0-9_$]*$/
+
+const HEX_REGEX = /^0x([0-9a-fA-F]{2})*$/
+
+const invalid = (message: string) =>
+  new InvalidParamsError(`Invalid typed data: ${message}`)
+
+const parseArrayType = (type: string) => {
+  const match = type.match(/^(.*)\[(\d*)\]$/)
+  return match
+    ? {
+        baseType: match[1],
+        length: match[2] === "" ? undefined : Number(match[2]),
+      }
+    : undefined
+}
+
+const isAtomicType = (type: string) => {
+  if (["address", "bool", "string", "bytes"].includes(type)) {
+    return true
+  }
+  const sized = type.match(/^(u?int|bytes)(\d+)$/)
+  if (!sized) {
+    return false
+  }
+  const size = Number(sized[2])
+  return sized[1] === "bytes"
+    ? size >= 1 && size <= 32
+    : size >= 8 && size <= 256 && size % 8 === 0
+}
+
+/**
+ * Adds the `EIP712Domain` type matching the fields set in `domain` when missing.
+ */
+export const withDomainType = (typedData: TypedData): TypedData =>
+  typedData.types.EIP712Domain
+    ? typedData
+    : {
+        ...typedData,
+        types: {
+          EIP712Domain: DOMAIN_FIELDS.filter(
+            ({ name }) =>
+              typedData.domain[name as keyof TypedDataDomain] !== undefined,
+          ),
+          ...typedData.types,
+        },
+      }
+
+const validateValue = (
+  types: TypedData["types"],
+  type: string,
+  value: unknown,
+  path: string,
+): void => {
+  const array = parseArrayType(type)
+  if (array) {
+    if (!Array.isArray(value)) {
+      throw invalid(`${path} should be an array`)
+    }
+    if (array.length !== undefined && value.length !== array.length) {
+      throw invalid(`${path} should have ${array.length} elements`)
+    }
+    value.forEach((element, i) =>
+      validateValue(types, array.baseType, element, `${path}[${i}]`),
+    )
+    return
+  }
+
+  const fields = types[type]
+  if (fields) {
+    if (typeof value !== "object" || value === null) {
+      throw invalid(`${path} should be a ${type} struct`)
+    }
+    const struct = value as Record<string, unknown>
+    fields.forEach(field => {
+      if (struct[field.name] === undefined) {
+        throw invalid(`${path}.${field.name} is missing`)
+      }
+      validateValue(
+        types,
+        field.type,
+        struct[field.name],
+        `${path}.${field.name}`,
+      )
+    })
+    const unknownKeys = Object.keys(struct).filter(
+      key =>
+        struct[key] !== undefined && !fields.some(field => field.name === key),
+    )
+    if (unknownKeys.length) {
+      throw invalid(`${path} has unknown fields ${unknownKeys.join(", ")}`)
+    }
+    return
+  }
+
+  if (type === "address") {
+    if (typeof value !== "string" || !isValidAddress(value)) {
+      throw invalid(`${path} should be an address`)
+    }
+  } else if (type === "bool") {
+    if (typeof value !== "boolean") {
+      throw invalid(`${path} should be a boolean`)
+    }
+  } else if (type === "string") {
+    if (typeof value !== "string") {
+      throw invalid(`${path} should be a string`)
+    }
+  } else if (type.startsWith("bytes")) {
+    const size = type === "bytes" ? undefined : Number(type.slice(5))
+    if (
+      typeof value !== "string" ||
+      !HEX_REGEX.test(value) ||
+      (size !== undefined && value.length > 2 + size * 2)
+    ) {
+      throw invalid(`${path} should be ${size ?? "arbitrary"} bytes of hex`)
+    }
+  } else {
+    const number = bn(value as string)
+    if (
+      number.isNaN() ||
+      !number.isInteger() ||
+      (type.startsWith("uint") && number.isNegative())
+    ) {
+      throw invalid(`${path} should be a valid ${type}`)
+    }
+  }
+}
+
+/**
+ * Checks the typed data against the EIP-712 rules, so malformed payloads fail before reaching the wallet.
+ * @param options.chainId Chain the wallet is connected to, which the domain chainId must match
+ * @throws InvalidParamsError describing the first problem found
+ */
+export const validateTypedData = (
+  typedData: TypedData,
+  {
+    standard = "TYPED_DATA_V4",
+    chainId,
+  }: { standard?: TypedDataStandard; chainId?: number } = {},
+): void => {
+  const { domain, types, primaryType, message } = withDomainType(typedData)
+
+  Object.entries(types).forEach(([typeName, fields]) => {
+    if (!IDENTIFIER_REGEX.test(typeName)) {
+      throw invalid(`type name ${typeName} is not an identifier`)
+    }
+    const names = new Set<string>()
+    fields.forEach(({ name, type }) => {
+      if (names.has(name)) {
+        throw invalid(`${typeName}.${name} is declared twice`)
+      }
+      names.add(name)
+      const array = parseArrayType(type)
+      if (array && standard !== "TYPED_DATA_V4") {
+        throw invalid(`${typeName}.${name}: arrays require TYPED_DATA_V4`)
+      }
+      const baseType = array?.baseType ?? type
+      if (!isAtomicType(baseType) && !types[baseType]) {
+        throw invalid(`${typeName}.${name} has unknown type ${type}`)
+      }
+    })
+  })
+
+  if (!types[primaryType]) {
+    throw invalid(`primary type ${primaryType} is not defined`)
+  }
+
+  if (standard === "TYPED_DATA_V1") {
+    const nestedField = types[primaryType].find(
+      ({ type }) => !isAtomicType(type),
+    )
+    if (nestedField) {
+      throw invalid(
+        `${primaryType}.${nestedField.name}: TYPED_DATA_V1 only supports atomic types`,
+      )
+    }
+  } else {
+    validateValue(types, "EIP712Domain", domain, "domain")
+    if (
+      chainId !== undefined &&
+      domain.chainId !== undefined &&
+      Number(domain.chainId) !== chainId
+    ) {
+      throw invalid(
+        `domain chainId ${domain.chainId} does not match the connected chain ${chainId}`,
+      )
+    }
+  }
+
+  validateValue(types, primaryType, message, "message")
+}
+
+export const toTypedDataV1 = ({
+  types,
+  primaryType,
+  message,
+}: TypedData): TypedDataV1 =>
+  types[primaryType].map(({ name, type }) => ({
+    type,
+    name,
+    value: message[name],
+  }))
+
+/**
+ * Validates the typed data, then encodes it as the JSON string the wallet expects for `standard`.
+ */
+export const serializeTypedData = (
+  typedData: TypedData,
+  standard: TypedDataStandard,
+  options: { chainId?: number } = {},
+): string => {
+  validateTypedData(typedData, { ...options, standard })
+  return JSON.stringify(
+    standard === "TYPED_DATA_V1"
+      ? toTypedDataV1(typedData)
+      : withDomainType(typedData),
+  )
+}
@@ -0,0 +1,75 @@
+import { IS_TESTNET } from "../../constants/testnet"
+import { UserRejectedRequestError } from "./walletErrors"
+import Wallet from "./wallet"
+import {
+  createTestAccount,
+  createWalletHarness,
+  WalletHarness,
+} from "./walletTestHarness"
+
+jest.mock("../auth")
+jest.mock("../analytics/events/walletEvents")
+
+const ADDRESS = "0x1111111111111111111111111111111111111111"
+
+// Ethereum or Rinkeby for the network (mainnet or testnet) the app is on, the other one for mismatches
+const APP_CHAIN_ID = IS_TESTNET ? "0x4" : "0x1"
+const OTHER_NETWORK_CHAIN_ID = IS_TESTNET ? "0x1" : "0x4"
+
+describe("Wallet.install", () => {
+  let harness: WalletHarness
+
+  beforeEach(() => {
+    jest
+      .spyOn(Wallet, "getAccount")
+      .mockImplementation(async address => createTestAccount({ address }))
+  })
+
+  afterEach(() => {
+    harness.cleanup()
+    jest.restoreAllMocks()
+  })
+
+  it("selects the wallet account", async () => {
+    harness = createWalletHarness({
+      accounts: [ADDRESS],
+      chainId: APP_CHAIN_ID,
+    })
+
+    await harness.connect()
+
+    expect(
+      harness.eip1193Provider.getCalls("eth_requestAccounts"),
+    ).toHaveLength(1)
+    expect(harness.wallet.address).toBe(ADDRESS)
+  })
+
+  it("asks to switch network when the wallet is on the other one", async () => {
+    harness = createWalletHarness({
+      accounts: [ADDRESS],
+      chainId: OTHER_NETWORK_CHAIN_ID,
+    })
+
+    await expect(harness.connect()).rejects.toThrow(
+      /^Please connect to the .+ network\.$/,
+    )
+    expect(harness.wallet.address).toBeUndefined()
+    expect(harness.wallet.accounts).toHaveLength(0)
+  })
+
+  it("surfaces the user rejecting the connection (4001)", async () => {
+    harness = createWalletHarness({
+      accounts: [ADDRESS],
+      chainId: APP_CHAIN_ID,
+    })
+    harness.eip1193Provider.rejectNext(
+      "eth_requestAccounts",
+      UserRejectedRequestError.code,
+    )
+
+    await expect(harness.connect()).rejects.toBeInstanceOf(
+      UserRejectedRequestError,
+    )
+    expect(harness.wallet.address).toBeUndefined()
+  })
+})
@@ -1,8 +1,13 @@
+import { compact, flatten, noop } from "lodash"
 import { GetServerSidePropsContext, NextPageContext } from "next"
 import { FragmentRef } from "react-relay"
 import { Buffer } from "safe-buffer"
-import chain, { ChainData, AccountKey, readChainData } from "lib/chain/chain"
-import Web3EvmProvider from "lib/chain/providers/web3EvmProvider"
+import chain, {
+  ChainData,
+  AccountKey,
+  Address,
+  readChainData,
+} from "lib/chain/chain"
 import { addressesEqual } from "lib/helpers/address"
 import {
   ChainIdentifier,
@@ -36,7 +41,30 @@ import { first, OrderedSet } from "../helpers/array"
 import { BigNumber, bn } from "../helpers/numberUtils"
 import Publisher from "../helpers/publisher"
 import Router from "../helpers/router"
-import Provider, { Transaction, TransactionId } from "./provider"
+import { getChainConfig } from "./chainRegistry"
+import { getTokenBalance } from "./erc20"
+import NonceManager from "./nonceManager"
+import Provider, {
+  Eip1559Transaction,
+  LegacyTransaction,
+  ProviderCapabilities,
+  SignatureResult,
+  TransactOptions,
+  TransactionId,
+} from "./provider"
+import {
+  getProviderRegistration,
+  ProviderId,
+  registerInjectedProviders,
+} from "./providerRegistry"
+import { buildSiweMessage, SiweMessage } from "./siwe"
+import TransactionQueue, {
+  QueueTransaction,
+  TransactionQueueOptions,
+} from "./transactionQueue"
+import TransactionTracker, { TrackerOptions } from "./transactionTracker"
+import { TypedData } from "./typedData"
+import { UnsupportedMethodError } from "./walletErrors"
 
 const COOKIE_KEY = "wallet"
 const TESTNET_COOKIE_KEY = "wallet-testnet"
@@ -46,15 +74,70 @@ export type Account = NonNullable<walletQueryResponse["account"]>
 interface WalletData {
   accounts: ReadonlyArray<Account>
   activeAccount?: Account
-  installedProviderNames?: ReadonlyArray<WALLET_NAME>
+  chain?: ChainIdentifier
+  installedProviderNames?: ReadonlyArray<ProviderId>
+}
+
+/**
+ * The wallet state known on the server, passed through page props to render the same wallet on the client.
+ * Uses null rather than undefined, which Next cannot serialize.
+ */
+export type WalletSnapshot = {
+  accounts: ReadonlyArray<Account>
+  activeAccount: Account | null
+  chain: ChainIdentifier | null
+  installedProviderNames: ReadonlyArray<ProviderId>
 }
 
 type AccountKeyHash = string
 
+// Distributes over the Transaction union so legacy and EIP-1559 fields stay exclusive
+export type SourcelessTransaction =
+  | Omit<LegacyTransaction, "source">
+  | Omit<Eip1559Transaction, "source">
+
 export interface SignOptions {
   clientSignatureStandard: ClientSignatureStandard
+  /**
+   * Throws `SignerMismatchError` unless the requested account signed: recovered locally for EOAs, through EIP-1271 for contract accounts.
+   * Leave it off for multisig accounts, their signature is only valid once enough owners signed.
+   */
+  verifySigner?: boolean
+}
+
+/**
+ * What to do with remembered accounts that no wallet authorizes anymore, i.e. disconnected while the page was closed.
+ * `flag` keeps them so the UI can ask to reconnect, see `isStaleAccount`.
+ */
+export type StaleAccountPolicy = "drop" | "flag"
+
+/**
+ * How the active account follows an account switch in a wallet:
+ * `follow-wallet` selects the wallet's account, `keep-selection` keeps the app's choice while it is still authorized.
+ */
+export type AccountsChangePolicy = "follow-wallet" | "keep-selection"
+
+export type LoadProvidersOptions = {
+  staleAccounts?: StaleAccountPolicy
 }
 
+export type BalanceOptions = {
+  /** ERC-20 contract of the symbol, to read the balance on-chain */
+  tokenAddress?: Address
+  /** Skips the API, i.e. right after a transaction, when its balance may be stale */
+  onChain?: boolean
+}
+
+export type SignInOptions = Pick<
+  SiweMessage,
+  | "nonce"
+  | "statement"
+  | "expirationTime"
+  | "notBefore"
+  | "requestId"
+  | "resources"
+>
+
 export default class Wallet {
   static wallet: Wallet | undefined
 
@@ -127,12 +210,34 @@ export default class Wallet {
 
   private cookie: Cookie<WalletData>
 
-  private installedProviderNames: Set<WALLET_NAME> = new Set()
+  private installedProviderNames: Set<ProviderId> = new Set()
+
+  private staleAccountHashes: Set<AccountKeyHash> = new Set()
+
+  private providers: Map<ProviderId, Provider> = new Map()
+
+  // Last accounts reported by each provider, to tell which ones a change removed
+  private providerAccounts: Map<ProviderId, ReadonlyArray<AccountKey>> =
+    new Map()
+
+  private providerSubscriptions: Map<ProviderId, () => unknown> = new Map()
 
   private publisher: Publisher = new Publisher()
 
+  private transactionPublisher: Publisher = new Publisher()
+
+  private transactionTrackers: Map<TransactionId, TransactionTracker> =
+    new Map()
+
+  private nonceManager: NonceManager = new NonceManager()
+
   activeAccount?: Account
 
+  /** Last chain a wallet was seen on, remembered across visits */
+  chain?: ChainIdentifier
+
+  accountsChangePolicy: AccountsChangePolicy = "follow-wallet"
+
   get accounts(): ReadonlyArray<Account> {
     return this._accounts.elements
   }
@@ -146,13 +251,35 @@ export default class Wallet {
     this.load(context)
   }
 
+  static isWalletName = (name: ProviderId): name is WALLET_NAME =>
+    (Object.values(WALLET_NAME) as string[]).includes(name)
+
   public static getCookie = () => {
     return new Cookie<WalletData>(IS_TESTNET ? TESTNET_COOKIE_KEY : COOKIE_KEY)
   }
 
+  /**
+   * Reads the wallet of the current request, i.e. from `getServerSideProps` to pass as `walletSnapshot` page prop.
+   */
+  public static getSnapshot = (
+    context: NextPageContext | GetServerSidePropsContext,
+  ): WalletSnapshot => new Wallet(context).dehydrate()
+
   onChange = (onChange: (wallet: Wallet) => unknown): (() => void) =>
     this.publisher.subscribe(() => onChange(this))
 
+  onTransactionChange = (
+    onChange: (trackers: ReadonlyArray<TransactionTracker>) => unknown,
+  ): (() => void) =>
+    this.transactionPublisher.subscribe(() =>
+      onChange(Array.from(this.transactionTrackers.values())),
+    )
+
+  getTransactionTracker = (
+    transactionId: TransactionId,
+  ): TransactionTracker | undefined =>
+    this.transactionTrackers.get(transactionId)
+
   getActiveAccountKey = (): IdentityKey | undefined => {
     return this.activeAccount && { address: this.activeAccount.address }
   }
@@ -204,6 +331,7 @@ export default class Wallet {
         {
           accounts: this._accounts.elements,
           activeAccount: this.activeAccount,
+          chain: this.chain,
           installedProviderNames: Array.from(this.installedProviderNames),
         },
         { secure: true, sameSite: "Lax" },
@@ -219,17 +347,116 @@ export default class Wallet {
     const data = this.cookie.get(context)
     this._accounts = new OrderedSet(this._accounts.getKey, data?.accounts)
     this.activeAccount = data?.activeAccount
+    this.chain = data?.chain
     this.installedProviderNames = new Set(data?.installedProviderNames)
   }
 
-  loadProviders = async (): Promise<void> => {
-    await Promise.all(
-      Array.from(this.installedProviderNames)
-        .filter(walletName => !chain.getProvider(walletName))
-        .map(this.install),
+  dehydrate = (): WalletSnapshot => ({
+    accounts: this._accounts.elements,
+    activeAccount: this.activeAccount ?? null,
+    chain: this.chain ?? null,
+    installedProviderNames: Array.from(this.installedProviderNames),
+  })
+
+  /**
+   * Like `load`, from a snapshot made by `dehydrate`. Does not notify subscribers, so it is safe to call while rendering.
+   */
+  hydrate = (snapshot: WalletSnapshot): void => {
+    this._accounts = new OrderedSet(this._accounts.getKey, snapshot.accounts)
+    this.activeAccount = snapshot.activeAccount ?? undefined
+    this.chain = snapshot.chain ?? undefined
+    this.installedProviderNames = new Set(snapshot.installedProviderNames)
+  }
+
+  setChain = (chain: ChainIdentifier | undefined): void => {
+    if (chain && chain !== this.chain) {
+      this.chain = chain
+      this.save()
+    }
+  }
+
+  /**
+   * Restores the wallets remembered in the cookie without prompting the user, then reconciles the remembered accounts with the ones they still authorize.
+   */
+  loadProviders = async ({
+    staleAccounts = "drop",
+  }: LoadProvidersOptions = {}): Promise<void> => {
+    const restoredAccounts = await Promise.all(
+      Array.from(this.installedProviderNames).map(this.restore),
     )
+    const reachedAccounts = compact(restoredAccounts)
+    // Accounts of an unreachable wallet cannot be told apart from disconnected ones
+    if (reachedAccounts.length === restoredAccounts.length) {
+      this.reconcile(flatten(reachedAccounts), staleAccounts)
+    }
   }
 
+  /**
+   * @returns The accounts the wallet authorizes, undefined when it could not be reached
+   */
+  private restore = async (
+    walletName: ProviderId,
+  ): Promise<AccountKey[] | undefined> => {
+    try {
+      const loadedProvider = this.providers.get(walletName)
+      if (
+        !loadedProvider &&
+        getProviderRegistration(walletName)?.requiresUserGesture
+      ) {
+        // Restored once the user connects it again
+        return undefined
+      }
+      const provider = loadedProvider ?? (await this.addProvider(walletName))
+      const accounts = loadedProvider
+        ? await loadedProvider.getAccounts()
+        : (await provider?.restoreSession()) ?? []
+      if (accounts.length) {
+        this.providerAccounts.set(walletName, accounts)
+      } else {
+        this.deleteProvider(walletName)
+        this.installedProviderNames.delete(walletName)
+      }
+      return accounts
+    } catch (error) {
+      console.error(error)
+      return undefined
+    }
+  }
+
+  private reconcile = (
+    authorizedAccounts: ReadonlyArray<AccountKey>,
+    policy: StaleAccountPolicy,
+  ): void => {
+    const authorizedHashes = new Set(
+      authorizedAccounts.map(({ address }) => Wallet.toHash(address)),
+    )
+    const staleHashes = this._accounts.elements
+      .map(({ address }) => Wallet.toHash(address))
+      .filter(hash => !authorizedHashes.has(hash))
+
+    if (policy === "drop") {
+      staleHashes.forEach(hash => {
+        this._accounts = this._accounts.delete(hash)
+      })
+      if (
+        this.activeAccount &&
+        staleHashes.includes(Wallet.toHash(this.activeAccount.address))
+      ) {
+        this.activeAccount = first(this._accounts.elements)
+      }
+      this.staleAccountHashes.clear()
+    } else {
+      this.staleAccountHashes = new Set(staleHashes)
+    }
+    this.save()
+  }
+
+  /**
+   * Whether the account was remembered but its wallet no longer authorizes it, only with the `flag` policy.
+   */
+  isStaleAccount = ({ address }: IdentityKey): boolean =>
+    this.staleAccountHashes.has(Wallet.toHash(address))
+
   refresh = async (): Promise<void> => {
     await Promise.all(
       this._accounts.elements.map(async acc => {
@@ -267,6 +494,7 @@ export default class Wallet {
       console.info(`Incompatible test network: ${key.chain}`)
       return undefined
     }
+    this.staleAccountHashes.delete(Wallet.toHash(key.address))
     const account = this.find(key)
     if (account) {
       return account
@@ -297,11 +525,12 @@ export default class Wallet {
     this.activeAccount = undefined
     this._accounts = this._accounts.clear()
     this.installedProviderNames.clear()
+    this.staleAccountHashes.clear()
     this.save()
   }
 
   sign = async (
-    message: string | Buffer,
+    message: string | Buffer | TypedData,
     options?: SignOptions,
   ): Promise<string> => {
     const { accountKey, provider } =
@@ -310,27 +539,226 @@ export default class Wallet {
   }
 
   signTypedData = async (
-    message: string | Buffer,
+    message: string | Buffer | TypedData,
     options?: SignOptions,
   ): Promise<string> => {
     const { accountKey, provider } =
       await this.UNSAFE_getActiveAccountAndProviderOrRedirect()
+    await this.assertTypedDataSupported(provider, options)
     return provider.signTypedData(message, accountKey.address, options)
   }
 
+  signWithResult = async (
+    message: string | Buffer | TypedData,
+    options?: SignOptions,
+  ): Promise<SignatureResult> => {
+    const { accountKey, provider } =
+      await this.UNSAFE_getActiveAccountAndProviderOrRedirect()
+    return provider.signWithResult(message, accountKey.address, options)
+  }
+
+  signTypedDataWithResult = async (
+    message: string | Buffer | TypedData,
+    options?: SignOptions,
+  ): Promise<SignatureResult> => {
+    const { accountKey, provider } =
+      await this.UNSAFE_getActiveAccountAndProviderOrRedirect()
+    await this.assertTypedDataSupported(provider, options)
+    return provider.signTypedDataWithResult(
+      message,
+      accountKey.address,
+      options,
+    )
+  }
+
+  /**
+   * @throws UnsupportedMethodError before prompting the user when the wallet cannot sign the standard
+   */
+  private assertTypedDataSupported = async (
+    provider: Provider,
+    options?: SignOptions,
+  ): Promise<void> => {
+    const standard = options?.clientSignatureStandard ?? "TYPED_DATA_V4"
+    const { typedDataStandards } = await provider.getCapabilities()
+    if (!(typedDataStandards as ReadonlyArray<string>).includes(standard)) {
+      throw new UnsupportedMethodError(
+        `${provider.getName()} does not support ${standard} signatures.`,
+      )
+    }
+  }
+
+  /**
+   * Signs a Sign-In with Ethereum (EIP-4361) message for the current page with the active account.
+   * The backend is expected to issue `nonce` and check the result with `verifySiweMessage`,
+   * or through EIP-1271 when `signerType` is `CONTRACT`.
+   */
+  signIn = async (
+    options: SignInOptions,
+  ): Promise<SignatureResult & { message: string }> => {
+    const { accountKey, provider } =
+      await this.UNSAFE_getActiveAccountAndProviderOrRedirect()
+    const chainIdentifier = await provider.getChain()
+    const chainConfig = chainIdentifier && getChainConfig(chainIdentifier)
+    if (!chainConfig) {
+      throw new Error(
+        "Could not determine the chain the wallet is connected to.",
+      )
+    }
+    const message = buildSiweMessage({
+      ...options,
+      domain: window.location.host,
+      address: accountKey.address,
+      uri: window.location.origin,
+      version: "1",
+      chainId: chainConfig.chainId,
+      issuedAt: new Date().toISOString(),
+    })
+    const result = await provider.signWithResult(message, accountKey.address)
+    return { ...result, message }
+  }
+
+  /**
+   * Sends the transaction and, when the provider supports it, starts tracking it until it is final.
+   * Follow its progress with `getTransactionTracker` or `onTransactionChange`, which let go of it once it is final.
+   */
   transact = async (
-    transaction: Omit<Transaction, "source">,
+    transaction: SourcelessTransaction,
+    { simulate, abi, ...trackerOptions }: TransactOptions & TrackerOptions = {},
   ): Promise<TransactionId> => {
     const { accountKey, provider } =
       await this.UNSAFE_getActiveAccountAndProviderOrRedirect()
-    return provider.transact({
-      ...transaction,
-      source: accountKey.address,
+    const transactionId = await provider.transact(
+      { ...transaction, source: accountKey.address },
+      { simulate, abi },
+    )
+    const tracker = provider.trackTransaction(transactionId, trackerOptions)
+    if (tracker) {
+      this.track(tracker)
+    }
+    return transactionId
+  }
+
+  /**
+   * Queues transactions that must be sent in order from the active account, i.e. approve then list.
+   * Nothing is sent until `run` is called, each transaction is tracked like with `transact`.
+   * @throws UnsupportedMethodError when the provider cannot be given nonces
+   */
+  createTransactionQueue = async (
+    transactions: ReadonlyArray<SourcelessTransaction>,
+    options?: Omit<TransactionQueueOptions, "onTrack">,
+  ): Promise<TransactionQueue> => {
+    const { accountKey, provider } =
+      await this.UNSAFE_getActiveAccountAndProviderOrRedirect()
+    if (!(await provider.getCapabilities()).transactionQueue) {
+      throw new UnsupportedMethodError(
+        `${provider.getName()} does not support transaction queues.`,
+      )
+    }
+    return new TransactionQueue(
+      provider,
+      this.nonceManager,
+      transactions.map(
+        (transaction): QueueTransaction => ({
+          ...transaction,
+          source: accountKey.address,
+        }),
+      ),
+      { ...options, onTrack: this.track },
+    )
+  }
+
+  private track = (tracker: TransactionTracker): void => {
+    this.transactionTrackers.set(tracker.transactionId, tracker)
+    const unsubscribe = tracker.onChange(({ isFinal, transactionId }) => {
+      if (isFinal) {
+        // Callers holding the tracker still get its final status
+        unsubscribe()
+        this.transactionTrackers.delete(transactionId)
+      }
+      this.transactionPublisher.publish()
     })
+    tracker.start()
+    this.transactionPublisher.publish()
+  }
+
+  protected addProvider = async (
+    walletName: ProviderId,
+  ): Promise<Provider | undefined> => {
+    let registration = getProviderRegistration(walletName)
+    if (!registration) {
+      // EIP-6963 wallets are only registered once they announced themselves
+      await registerInjectedProviders()
+      registration = getProviderRegistration(walletName)
+    }
+    if (!registration) {
+      throw new Error(`Unknown wallet ${walletName}`)
+    }
+    const provider = await registration.load()
+    if (provider) {
+      // Installing again replaces the previous instance
+      this.providerSubscriptions.get(walletName)?.()
+      this.providers.set(walletName, provider)
+      this.providerSubscriptions.set(
+        walletName,
+        provider.onAccountsChange(accounts =>
+          this.onProviderAccountsChange(walletName, accounts),
+        ),
+      )
+    }
+    return provider
+  }
+
+  protected deleteProvider = (walletName: ProviderId): void => {
+    this.providerSubscriptions.get(walletName)?.()
+    this.providerSubscriptions.delete(walletName)
+    this.providerAccounts.delete(walletName)
+    this.providers.delete(walletName)
+    if (Wallet.isWalletName(walletName)) {
+      chain.deleteProvider(walletName)
+    }
+  }
+
+  /**
+   * Keeps the accounts in sync with a wallet: adds new ones, removes the ones no wallet authorizes anymore and,
+   * depending on `accountsChangePolicy`, selects the wallet's account. No accounts means the wallet disconnected.
+   */
+  private onProviderAccountsChange = async (
+    walletName: ProviderId,
+    accounts: AccountKey[],
+  ): Promise<void> => {
+    const previousAccounts = this.providerAccounts.get(walletName) ?? []
+    if (accounts.length) {
+      this.providerAccounts.set(walletName, accounts)
+    } else {
+      this.deleteProvider(walletName)
+      this.installedProviderNames.delete(walletName)
+    }
+
+    const authorizedHashes = new Set(
+      flatten(Array.from(this.providerAccounts.values())).map(({ address }) =>
+        Wallet.toHash(address),
+      ),
+    )
+    previousAccounts
+      .filter(({ address }) => !authorizedHashes.has(Wallet.toHash(address)))
+      .forEach(this.delete)
+
+    await Promise.all(accounts.map(this.add))
+    const walletAccount = first(accounts)
+    if (walletAccount && this.accountsChangePolicy === "follow-wallet") {
+      await this.select(walletAccount)
+    }
+    if (!this.activeAccount) {
+      this.activeAccount = first(this._accounts.elements)
+    }
+    this.save()
   }
 
-  install = async (walletName: WALLET_NAME): Promise<void> => {
-    const provider = await chain.addProvider(walletName)
+  /**
+   * @param walletName The id of a registration from `providerRegistry`, i.e. one listed by `getAvailableProviders`
+   */
+  install = async (walletName: ProviderId): Promise<void> => {
+    const provider = await this.addProvider(walletName)
     if (!provider) {
       return
     }
@@ -367,14 +795,20 @@ export default class Wallet {
 
         if (firstAccount) {
           this.select(firstAccount)
-          trackConnectWallet({ ...firstAccount, walletName })
+          trackConnectWallet({
+            ...firstAccount,
+            walletName: Wallet.isWalletName(walletName)
+              ? walletName
+              : provider.getName(),
+          })
         }
         await Promise.all(accounts.map(this.add))
+        this.providerAccounts.set(walletName, accounts)
         this.installedProviderNames.add(walletName)
         this.save()
       }
     } catch (e) {
-      chain.deleteProvider(walletName)
+      this.deleteProvider(walletName)
       this.installedProviderNames.delete(walletName)
       this.save()
       throw e
@@ -386,7 +820,13 @@ export default class Wallet {
     if (!accountKey) {
       return undefined
     }
-    return chain.findProvider(accountKey)
+    for (const provider of Array.from(this.providers.values())) {
+      const accounts = await provider.getAccounts()
+      if (accounts.some(a => addressesEqual(a.address, accountKey.address))) {
+        return provider
+      }
+    }
+    return undefined
   }
 
   public static getRedirectLocation = (context?: NextPageContext) => {
@@ -457,13 +897,78 @@ export default class Wallet {
     return bn(data.blockchain.balance)
   }
 
+  /**
+   * Reads the balance from the API, falling back to an on-chain read through the wallet when the API fails.
+   */
   getBalanceBySymbol = async (
     symbol: string,
     chain?: ChainIdentifier,
+    { tokenAddress, onChain = false }: BalanceOptions = {},
   ): Promise<BigNumber> => {
     if (!this.activeAccount) {
       return bn(0)
     }
+    if (onChain) {
+      const balance = await this.getOnChainBalance(symbol, chain, tokenAddress)
+      if (!balance) {
+        throw new UnsupportedMethodError(
+          `Cannot read the ${symbol} balance on-chain`,
+        )
+      }
+      return balance
+    }
+    try {
+      return await this.getApiBalanceBySymbol(symbol, chain)
+    } catch (error) {
+      const balance = await this.getOnChainBalance(symbol, chain, tokenAddress)
+      if (!balance) {
+        throw error
+      }
+      return balance
+    }
+  }
+
+  /**
+   * @returns The balance of the native currency of the wallet chain, or of `tokenAddress` on it.
+   * Undefined when the wallet cannot read it, i.e. it is connected to another chain than `chain`.
+   */
+  getOnChainBalance = async (
+    symbol: string,
+    chain?: ChainIdentifier,
+    tokenAddress?: Address,
+  ): Promise<BigNumber | undefined> => {
+    const provider = await this.getProvider()
+    const address = this.address
+    const providerChain = await provider?.getChain()
+    const chainConfig = providerChain && getChainConfig(providerChain)
+    if (
+      !provider ||
+      !address ||
+      !chainConfig ||
+      (chain && chain !== providerChain) ||
+      !(await provider.getCapabilities()).readChain
+    ) {
+      return undefined
+    }
+    if (tokenAddress) {
+      return getTokenBalance({
+        provider,
+        token: tokenAddress,
+        source: address,
+        owner: address,
+      })
+    }
+    const { nativeCurrency } = chainConfig
+    if (!nativeCurrency || nativeCurrency.symbol !== symbol) {
+      return undefined
+    }
+    return bn(await provider.getBalance(address), nativeCurrency.decimals)
+  }
+
+  private getApiBalanceBySymbol = async (
+    symbol: string,
+    chain?: ChainIdentifier,
+  ): Promise<BigNumber> => {
     const { paymentAsset } = await fetch<walletBalanceBySymbolQuery>(
       graphql`
         query walletBalanceBySymbolQuery(
@@ -488,12 +993,17 @@ export default class Wallet {
     return bn(balance || 0, decimals)
   }
 
+  getCapabilities = async (): Promise<ProviderCapabilities | undefined> => {
+    const provider = await this.getProvider()
+    return provider?.getCapabilities()
+  }
+
   switchChain = async (chainData: ChainData) => {
     const provider = await this.getProviderOrRedirect()
-    if (provider instanceof Web3EvmProvider) {
+    if (provider && (await provider.getCapabilities()).switchChain) {
       return provider.switchChain(chainData)
     }
-    throw new Error(
+    throw new UnsupportedMethodError(
       `Switching chain is not supported on ${
         readChainData(chainData).displayName
       }`,
@@ -501,9 +1011,17 @@ export default class Wallet {
   }
 }
 
+/**
+ * @param provider Used for every wallet operation when set, i.e. a `BrowserWeb3Provider` over a `MockEip1193Provider`
+ */
 export class MockWallet extends Wallet {
-  constructor(account: Account) {
+  constructor(account: Account, provider?: Provider) {
     super()
     this.activeAccount = account
+    if (provider) {
+      this.getProvider = async () => provider
+      this.addProvider = async () => provider
+      this.deleteProvider = noop
+    }
   }
 }
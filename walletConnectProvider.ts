@@ -1,38 +1,513 @@
-import type TWalletConnectWeb3Provider from "@walletconnect/web3-provider"
-import Web3 from "web3"
+import { compact, first, uniq } from "lodash"
+import { WALLET_NAME } from "../../../constants"
+import { IS_TESTNET } from "../../../constants/testnet"
 import {
-  ETHEREUM_MAINNET,
-  ETHEREUM_RINKEBY,
-  WALLET_NAME,
-} from "../../../constants"
-import { NetworkId } from "../networks/ethereum"
+  CaipChainId,
+  getChainConfig,
+  getChainConfigByChainId,
+  getChainConfigs,
+  getRpcProvider,
+  toCaipChainId,
+} from "../chainRegistry"
+import Ethereum from "../networks/ethereum"
+import type { ProviderCapabilities } from "../provider"
+import type { TypedDataStandard } from "../typedData"
+import {
+  ChainNotAddedError,
+  DisconnectedError,
+  UnsupportedMethodError,
+} from "../walletErrors"
+import {
+  Eip1193Provider,
+  ProviderEvent,
+  RequestArguments,
+  toHexQuantity,
+} from "./eip1193"
 import Web3EvmProvider from "./web3EvmProvider"
 
-class WalletConnectProvider extends Web3EvmProvider {
-  walletConnectProvider: TWalletConnectWeb3Provider
-  web3: Web3
+type ProposalNamespace = {
+  chains: CaipChainId[]
+  methods: string[]
+  events: string[]
+}
 
-  constructor(WalletConnectWeb3Provider: typeof TWalletConnectWeb3Provider) {
-    super()
-    this.walletConnectProvider = new WalletConnectWeb3Provider({
-      bridge: "https://opensea.bridge.walletconnect.org",
-      rpc: {
-        [NetworkId.ETHEREUM]: ETHEREUM_MAINNET,
-        [NetworkId.RINKEBY]: ETHEREUM_RINKEBY,
-        [NetworkId.POLYGON]: "https://rpc-mainnet.maticvigil.com/",
-        [NetworkId.MUMBAI]: "https://rpc-mumbai.matic.today/",
+type SessionNamespace = {
+  /** CAIP-10 account ids, i.e. eip155:1:0xab16a96d359ec26a11e2c2b3d8f8b8942d5bfcdb */
+  accounts: string[]
+  methods: string[]
+  events: string[]
+}
+
+export type WalletConnectSession = {
+  topic: string
+  /** Unix timestamp in seconds */
+  expiry: number
+  namespaces: Record<string, SessionNamespace>
+}
+
+type SessionEventArgs = {
+  topic: string
+  params: {
+    chainId: CaipChainId
+    event: { name: string; data: unknown }
+  }
+}
+
+type SessionUpdateArgs = {
+  topic: string
+  params: { namespaces: Record<string, SessionNamespace> }
+}
+
+type SessionDeleteArgs = { topic: string }
+
+type SessionListeners = {
+  session_event: (args: SessionEventArgs) => unknown
+  session_update: (args: SessionUpdateArgs) => unknown
+  session_delete: (args: SessionDeleteArgs) => unknown
+}
+
+/**
+ * The subset of the WalletConnect v2 sign client we rely on.
+ * Injectable so tests can run against a local stand-in relay.
+ */
+export interface WalletConnectTransport {
+  connect(params: {
+    requiredNamespaces: Record<string, ProposalNamespace>
+    optionalNamespaces?: Record<string, ProposalNamespace>
+  }): Promise<{ uri?: string; approval: () => Promise<WalletConnectSession> }>
+  request<T>(params: {
+    topic: string
+    chainId: CaipChainId
+    request: { method: string; params?: unknown }
+  }): Promise<T>
+  disconnect(params: {
+    topic: string
+    reason: { code: number; message: string }
+  }): Promise<void>
+  session: { getAll(): WalletConnectSession[] }
+  on<E extends keyof SessionListeners>(
+    event: E,
+    listener: SessionListeners[E],
+  ): unknown
+  off<E extends keyof SessionListeners>(
+    event: E,
+    listener: SessionListeners[E],
+  ): unknown
+}
+
+type WalletConnectOptions = {
+  /** Shows the pairing URI to the user, defaults to the WalletConnect QR code modal */
+  onDisplayUri?: (uri: string) => unknown
+}
+
+const REQUIRED_METHODS = [
+  "eth_sendTransaction",
+  "personal_sign",
+  "eth_signTypedData_v4",
+]
+
+// Wallets reject proposals requiring a method they do not support, so anything not every wallet has goes here
+const OPTIONAL_METHODS = [
+  "eth_signTypedData",
+  "eth_signTypedData_v3",
+  "wallet_switchEthereumChain",
+  "wallet_addEthereumChain",
+]
+
+const EVENTS = ["accountsChanged", "chainChanged"]
+
+const TYPED_DATA_METHODS: ReadonlyArray<{
+  method: string
+  standard: TypedDataStandard
+}> = [
+  { method: "eth_signTypedData", standard: "TYPED_DATA_V1" },
+  { method: "eth_signTypedData_v3", standard: "TYPED_DATA_V3" },
+  { method: "eth_signTypedData_v4", standard: "TYPED_DATA_V4" },
+]
+
+// Methods answered by the wallet over the relay rather than by a public node
+const WALLET_METHODS = [
+  ...REQUIRED_METHODS,
+  ...OPTIONAL_METHODS,
+  "eth_sign",
+  "eth_signTransaction",
+]
+
+const SESSION_TOPIC_STORAGE_KEY = "walletconnect-v2-session-topic"
+
+// https://docs.walletconnect.com/2.0/specs/clients/sign/error-codes
+const USER_DISCONNECTED_REASON = { code: 6000, message: "User disconnected." }
+
+const toNetworkId = (chainId: CaipChainId | string): number =>
+  Number(chainId.split(":")[1])
+
+const getAppChainId = (): CaipChainId | undefined =>
+  getChainConfig(Ethereum.getChainName())?.caipChainId
+
+/**
+ * The app chain is required, the other chains of the same environment (mainnet or testnet) are optional
+ */
+const getProposalNamespaces = () => {
+  const appChainId = getAppChainId()
+  const chains = getChainConfigs()
+    .filter(({ isTestnet }) => isTestnet === IS_TESTNET)
+    .map(({ caipChainId }) => caipChainId)
+  return {
+    requiredNamespaces: {
+      eip155: {
+        chains: chains.filter(chainId => chainId === appChainId),
+        methods: REQUIRED_METHODS,
+        events: EVENTS,
       },
+    },
+    optionalNamespaces: {
+      eip155: {
+        chains: chains.filter(chainId => chainId !== appChainId),
+        methods: OPTIONAL_METHODS,
+        events: EVENTS,
+      },
+    },
+  }
+}
+
+const getStoredSessionTopic = () =>
+  typeof localStorage === "undefined"
+    ? undefined
+    : localStorage.getItem(SESSION_TOPIC_STORAGE_KEY) ?? undefined
+
+const storeSessionTopic = (topic: string | undefined) => {
+  if (typeof localStorage === "undefined") {
+    return
+  }
+  if (topic) {
+    localStorage.setItem(SESSION_TOPIC_STORAGE_KEY, topic)
+  } else {
+    localStorage.removeItem(SESSION_TOPIC_STORAGE_KEY)
+  }
+}
+
+const displayQrCode = async (uri: string) => {
+  const QRCodeModal = (await import("@walletconnect/qrcode-modal")).default
+  QRCodeModal.open(uri, () => undefined)
+  return () => QRCodeModal.close()
+}
+
+/**
+ * Exposes a WalletConnect v2 session as an EIP-1193 provider.
+ * Session bound methods go to the wallet over the relay, reads go to a public node of the active chain.
+ */
+class WalletConnectEip1193Provider implements Eip1193Provider {
+  session?: WalletConnectSession
+
+  private chainId?: CaipChainId
+
+  private transport: WalletConnectTransport
+
+  private options: WalletConnectOptions
+
+  private listeners: Map<ProviderEvent, Set<(...args: unknown[]) => unknown>> =
+    new Map()
+
+  private isSubscribed = false
+
+  constructor(
+    transport: WalletConnectTransport,
+    options: WalletConnectOptions = {},
+  ) {
+    this.transport = transport
+    this.options = options
+  }
+
+  /**
+   * Restores the session persisted by a previous page load without prompting the user.
+   */
+  restore = (): boolean => {
+    const topic = getStoredSessionTopic()
+    const session = this.transport.session
+      .getAll()
+      .find(s => s.topic === topic && s.expiry * 1000 > Date.now())
+    if (session) {
+      this.setSession(session)
+    } else {
+      storeSessionTopic(undefined)
+    }
+    return !!session
+  }
+
+  enable = async (): Promise<void> => {
+    if (this.session || this.restore()) {
+      return
+    }
+    const { uri, approval } = await this.transport.connect(
+      getProposalNamespaces(),
+    )
+    let closeQrCode: (() => unknown) | undefined
+    if (uri) {
+      if (this.options.onDisplayUri) {
+        this.options.onDisplayUri(uri)
+      } else {
+        closeQrCode = await displayQrCode(uri)
+      }
+    }
+    try {
+      this.setSession(await approval())
+    } finally {
+      closeQrCode?.()
+    }
+  }
+
+  disconnect = async (): Promise<void> => {
+    const { session } = this
+    if (!session) {
+      return
+    }
+    this.clearSession()
+    await this.transport.disconnect({
+      topic: session.topic,
+      reason: USER_DISCONNECTED_REASON,
     })
-    this.web3 = new Web3(this.walletConnectProvider as unknown as Web3.Provider)
+  }
+
+  on = (event: ProviderEvent, listener: (...args: unknown[]) => unknown) => {
+    const listeners = this.listeners.get(event) ?? new Set()
+    listeners.add(listener)
+    this.listeners.set(event, listeners)
+  }
+
+  removeListener = (
+    event: ProviderEvent,
+    listener: (...args: unknown[]) => unknown,
+  ) => {
+    this.listeners.get(event)?.delete(listener)
+  }
+
+  request = async <T>({ method, params }: RequestArguments): Promise<T> => {
+    switch (method) {
+      case "eth_chainId":
+        return this.getHexChainId() as unknown as T
+      case "net_version":
+        return String(toNetworkId(this.getChainId())) as unknown as T
+      case "eth_accounts":
+      case "eth_requestAccounts":
+        return this.getAddresses() as unknown as T
+      case "wallet_switchEthereumChain":
+        return this.switchChain<T>(params as [{ chainId: string }])
+    }
+
+    const { session, chainId } = this
+    if (WALLET_METHODS.includes(method)) {
+      if (!session || !chainId) {
+        throw new DisconnectedError()
+      }
+      if (!this.getSessionMethods().includes(method)) {
+        throw new UnsupportedMethodError(
+          `${method} was not approved for this WalletConnect session`,
+        )
+      }
+      return this.transport.request<T>({
+        topic: session.topic,
+        chainId,
+        request: { method, params },
+      })
+    }
+
+    // Wallets do not serve read-only calls over the relay
+    const chainConfig = getChainConfigByChainId(this.getChainId())
+    const rpcProvider = chainConfig && getRpcProvider(chainConfig.identifier)
+    if (!rpcProvider) {
+      throw new UnsupportedMethodError(
+        `${method} is not available on ${this.getChainId()}`,
+      )
+    }
+    return rpcProvider.request<T>({ method, params })
+  }
+
+  private emit = (event: ProviderEvent, ...args: unknown[]) => {
+    this.listeners.get(event)?.forEach(listener => listener(...args))
+  }
+
+  private getChainId = (): CaipChainId => {
+    if (!this.chainId) {
+      throw new DisconnectedError()
+    }
+    return this.chainId
+  }
+
+  private getHexChainId = () => toHexQuantity(toNetworkId(this.getChainId()))
+
+  private getSessionAccounts = (): string[] =>
+    this.session?.namespaces.eip155?.accounts ?? []
+
+  getSessionChains = (): CaipChainId[] =>
+    uniq(
+      this.getSessionAccounts().map(
+        account => account.split(":").slice(0, 2).join(":") as CaipChainId,
+      ),
+    )
+
+  getSessionMethods = (): string[] =>
+    this.session?.namespaces.eip155?.methods ?? []
+
+  private getAddresses = (): string[] => {
+    const accounts = this.getSessionAccounts()
+    const accountsOnChain = accounts.filter(account =>
+      account.startsWith(`${this.chainId}:`),
+    )
+    return uniq(
+      (accountsOnChain.length ? accountsOnChain : accounts).map(
+        account => account.split(":")[2],
+      ),
+    )
+  }
+
+  private switchChain = async <T>([{ chainId }]: [
+    { chainId: string },
+  ]): Promise<T> => {
+    const caipChainId = toCaipChainId(Number(chainId))
+    if (!this.getSessionChains().includes(caipChainId)) {
+      throw new ChainNotAddedError(
+        `${caipChainId} was not approved for this WalletConnect session`,
+      )
+    }
+    if (
+      this.session &&
+      this.chainId &&
+      this.getSessionMethods().includes("wallet_switchEthereumChain")
+    ) {
+      await this.transport.request({
+        topic: this.session.topic,
+        chainId: this.chainId,
+        request: {
+          method: "wallet_switchEthereumChain",
+          params: [{ chainId }],
+        },
+      })
+    }
+    this.setChainId(caipChainId)
+    return null as unknown as T
+  }
+
+  private setChainId = (chainId: CaipChainId) => {
+    if (chainId !== this.chainId) {
+      this.chainId = chainId
+      this.emit("chainChanged", this.getHexChainId())
+    }
+  }
+
+  private setSession = (session: WalletConnectSession) => {
+    this.session = session
+    this.subscribe()
+    storeSessionTopic(session.topic)
+    const chains = this.getSessionChains()
+    const appChainId = getAppChainId()
+    if (!this.chainId || !chains.includes(this.chainId)) {
+      const chainId =
+        appChainId && chains.includes(appChainId) ? appChainId : first(chains)
+      if (chainId) {
+        this.setChainId(chainId)
+      }
+    }
+    this.emit("accountsChanged", this.getAddresses())
+  }
+
+  private clearSession = () => {
+    this.session = undefined
+    this.unsubscribe()
+    this.chainId = undefined
+    storeSessionTopic(undefined)
+    this.emit("accountsChanged", [])
+    this.emit("disconnect", new DisconnectedError())
+  }
+
+  private subscribe = () => {
+    if (this.isSubscribed) {
+      return
+    }
+    this.transport.on("session_event", this.onSessionEvent)
+    this.transport.on("session_update", this.onSessionUpdate)
+    this.transport.on("session_delete", this.onSessionDelete)
+    this.isSubscribed = true
+  }
+
+  private unsubscribe = () => {
+    this.transport.off("session_event", this.onSessionEvent)
+    this.transport.off("session_update", this.onSessionUpdate)
+    this.transport.off("session_delete", this.onSessionDelete)
+    this.isSubscribed = false
+  }
+
+  private onSessionEvent = ({ topic, params }: SessionEventArgs) => {
+    if (topic !== this.session?.topic) {
+      return
+    }
+    const { name, data } = params.event
+    if (name === "chainChanged") {
+      this.setChainId(toCaipChainId(Number(data)))
+    } else if (name === "accountsChanged") {
+      this.emit("accountsChanged", this.getAddresses())
+    }
+  }
+
+  private onSessionUpdate = ({ topic, params }: SessionUpdateArgs) => {
+    if (this.session && topic === this.session.topic) {
+      this.setSession({ ...this.session, namespaces: params.namespaces })
+    }
+  }
+
+  private onSessionDelete = ({ topic }: SessionDeleteArgs) => {
+    if (topic === this.session?.topic) {
+      this.clearSession()
+    }
+  }
+}
+
+class WalletConnectProvider extends Web3EvmProvider {
+  eip1193Provider: WalletConnectEip1193Provider
+
+  constructor(
+    transport: WalletConnectTransport,
+    options?: WalletConnectOptions,
+  ) {
+    super()
+    this.eip1193Provider = new WalletConnectEip1193Provider(transport, options)
   }
 
   connect = async () => {
-    await this.walletConnectProvider.enable()
+    await this.eip1193Provider.enable()
     await super.connect()
   }
 
   disconnect = async () => {
-    await this.walletConnectProvider.disconnect()
+    await this.eip1193Provider.disconnect()
+  }
+
+  restoreSession = async () => {
+    return this.eip1193Provider.restore() ? this.getAccounts() : []
+  }
+
+  /**
+   * Reflects what the wallet approved for the current session.
+   */
+  getCapabilities = async (): Promise<ProviderCapabilities> => {
+    const methods = this.eip1193Provider.getSessionMethods()
+    const chain = await this.getChain()
+    // Reads go to the chain's RPC endpoint rather than the wallet
+    const readChain = !!chain && !!getRpcProvider(chain)
+    return {
+      switchChain: this.eip1193Provider.getSessionChains().length > 1,
+      addChain: methods.includes("wallet_addEthereumChain"),
+      typedDataStandards: TYPED_DATA_METHODS.filter(({ method }) =>
+        methods.includes(method),
+      ).map(({ standard }) => standard),
+      disconnect: true,
+      readChain,
+      transactionQueue: readChain,
+      supportedChains: compact(
+        this.eip1193Provider
+          .getSessionChains()
+          .map(chainId => getChainConfigByChainId(chainId)?.identifier),
+      ),
+    }
   }
 
   getName = () => {
@@ -40,11 +515,33 @@ class WalletConnectProvider extends Web3EvmProvider {
   }
 }
 
-export const createWalletConnectProvider =
-  async (): Promise<WalletConnectProvider> => {
-    const WalletConnectWeb3Provider = (
-      await import("@walletconnect/web3-provider")
-    ).default
-
-    return new WalletConnectProvider(WalletConnectWeb3Provider)
+const createSignClientTransport = async (): Promise<WalletConnectTransport> => {
+  const projectId = process.env.NEXT_PUBLIC_WALLET_CONNECT_PROJECT_ID
+  if (!projectId) {
+    throw new Error(
+      "NEXT_PUBLIC_WALLET_CONNECT_PROJECT_ID must be set to connect with WalletConnect.",
+    )
   }
+  const SignClient = (await import("@walletconnect/sign-client")).default
+  const client = await SignClient.init({
+    projectId,
+    relayUrl: process.env.NEXT_PUBLIC_WALLET_CONNECT_RELAY_URL,
+    metadata: {
+      name: "OpenSea",
+      description: "OpenSea, the largest NFT marketplace",
+      url: window.location.origin,
+      icons: [`${window.location.origin}/static/images/logos/opensea.svg`],
+    },
+  })
+  return client as unknown as WalletConnectTransport
+}
+
+export const createWalletConnectProvider = async (
+  transport?: WalletConnectTransport,
+  options?: WalletConnectOptions,
+): Promise<WalletConnectProvider> => {
+  return new WalletConnectProvider(
+    transport ?? (await createSignClientTransport()),
+    options,
+  )
+}
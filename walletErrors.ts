@@ -0,0 +1,255 @@
+import type { RevertReason } from "./transactionSimulation"
+
+type WalletErrorOptions = {
+  code?: number
+  data?: unknown
+}
+
+/**
+ * Base class for every error surfaced by a wallet provider.
+ * `code` and `data` are preserved from the underlying EIP-1193 / JSON-RPC error when there is one.
+ */
+export class WalletError extends Error {
+  name = "WalletError"
+  readonly code?: number
+  readonly data?: unknown
+
+  constructor(message: string, { code, data }: WalletErrorOptions = {}) {
+    super(message)
+    // Keeps `instanceof` working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.code = code
+    this.data = data
+  }
+}
+
+// EIP-1193 provider errors: https://eips.ethereum.org/EIPS/eip-1193#provider-errors
+
+export class UserRejectedRequestError extends WalletError {
+  static code = 4001
+  name = "UserRejectedRequestError"
+
+  constructor(
+    message = "The user rejected the request.",
+    { code = UserRejectedRequestError.code, data }: WalletErrorOptions = {},
+  ) {
+    super(message, { code, data })
+  }
+}
+
+export class UnauthorizedError extends WalletError {
+  static code = 4100
+  name = "UnauthorizedError"
+
+  constructor(
+    message = "The requested method and/or account has not been authorized by the user.",
+    { code = UnauthorizedError.code, data }: WalletErrorOptions = {},
+  ) {
+    super(message, { code, data })
+  }
+}
+
+export class UnsupportedMethodError extends WalletError {
+  static code = 4200
+  name = "UnsupportedMethodError"
+
+  constructor(
+    message = "The wallet does not support the requested method.",
+    { code = UnsupportedMethodError.code, data }: WalletErrorOptions = {},
+  ) {
+    super(message, { code, data })
+  }
+}
+
+export class DisconnectedError extends WalletError {
+  static code = 4900
+  name = "DisconnectedError"
+
+  constructor(
+    message = "The wallet is disconnected from all chains.",
+    { code = DisconnectedError.code, data }: WalletErrorOptions = {},
+  ) {
+    super(message, { code, data })
+  }
+}
+
+export class ChainDisconnectedError extends WalletError {
+  static code = 4901
+  name = "ChainDisconnectedError"
+
+  constructor(
+    message = "The wallet is not connected to the requested chain.",
+    { code = ChainDisconnectedError.code, data }: WalletErrorOptions = {},
+  ) {
+    super(message, { code, data })
+  }
+}
+
+export class ChainNotAddedError extends WalletError {
+  static code = 4902
+  name = "ChainNotAddedError"
+
+  constructor(
+    message = "The requested chain has not been added to the wallet.",
+    { code = ChainNotAddedError.code, data }: WalletErrorOptions = {},
+  ) {
+    super(message, { code, data })
+  }
+}
+
+// JSON-RPC errors: https://eips.ethereum.org/EIPS/eip-1474#error-codes
+
+/**
+ * Returned by nodes for eth_call and eth_estimateGas when the execution reverts, `data` holds the revert data.
+ */
+export class ExecutionRevertedError extends WalletError {
+  static code = 3
+  name = "ExecutionRevertedError"
+  readonly reason?: RevertReason
+
+  constructor(
+    message = "The transaction execution reverted.",
+    {
+      code = ExecutionRevertedError.code,
+      data,
+      reason,
+    }: WalletErrorOptions & { reason?: RevertReason } = {},
+  ) {
+    super(message, { code, data })
+    this.reason = reason
+  }
+}
+
+export class RequestPendingError extends WalletError {
+  static code = -32002
+  name = "RequestPendingError"
+
+  constructor(
+    message = "A request is already pending in the wallet.",
+    { code = RequestPendingError.code, data }: WalletErrorOptions = {},
+  ) {
+    super(message, { code, data })
+  }
+}
+
+export class MethodNotFoundError extends WalletError {
+  static code = -32601
+  name = "MethodNotFoundError"
+
+  constructor(
+    message = "The method does not exist or is not available.",
+    { code = MethodNotFoundError.code, data }: WalletErrorOptions = {},
+  ) {
+    super(message, { code, data })
+  }
+}
+
+export class InvalidParamsError extends WalletError {
+  static code = -32602
+  name = "InvalidParamsError"
+
+  constructor(
+    message = "Invalid method parameters.",
+    { code = InvalidParamsError.code, data }: WalletErrorOptions = {},
+  ) {
+    super(message, { code, data })
+  }
+}
+
+export class InternalRpcError extends WalletError {
+  static code = -32603
+  name = "InternalRpcError"
+
+  constructor(
+    message = "There was an internal error in the wallet.",
+    { code = InternalRpcError.code, data }: WalletErrorOptions = {},
+  ) {
+    super(message, { code, data })
+  }
+}
+
+// Client side checks, these never come from the wallet itself
+
+/**
+ * The wallet produced a signature recovering to another account than the one requested,
+ * or one the requested contract account does not consider valid.
+ */
+export class SignerMismatchError extends WalletError {
+  name = "SignerMismatchError"
+  readonly expectedSigner: string
+  readonly actualSigner?: string
+
+  constructor(expectedSigner: string, actualSigner?: string) {
+    super(
+      actualSigner
+        ? `Expected a signature from ${expectedSigner} but it was signed by ${actualSigner}.`
+        : `The signature is not valid for ${expectedSigner}.`,
+    )
+    this.expectedSigner = expectedSigner
+    this.actualSigner = actualSigner
+  }
+}
+
+/**
+ * A sent transaction left the mempool without being mined, so its nonce is free again.
+ */
+export class TransactionDroppedError extends WalletError {
+  name = "TransactionDroppedError"
+
+  constructor(message = "The transaction was dropped from the mempool.") {
+    super(message)
+  }
+}
+
+const ERROR_BY_CODE: Record<
+  number,
+  new (message?: string, options?: WalletErrorOptions) => WalletError
+> = {
+  [UserRejectedRequestError.code]: UserRejectedRequestError,
+  [UnauthorizedError.code]: UnauthorizedError,
+  [UnsupportedMethodError.code]: UnsupportedMethodError,
+  [DisconnectedError.code]: DisconnectedError,
+  [ChainDisconnectedError.code]: ChainDisconnectedError,
+  [ChainNotAddedError.code]: ChainNotAddedError,
+  [ExecutionRevertedError.code]: ExecutionRevertedError,
+  [RequestPendingError.code]: RequestPendingError,
+  [MethodNotFoundError.code]: MethodNotFoundError,
+  [InvalidParamsError.code]: InvalidParamsError,
+  [InternalRpcError.code]: InternalRpcError,
+}
+
+type RawProviderError = {
+  code?: number
+  message?: string
+  data?: unknown
+}
+
+const getErrorCode = (error: RawProviderError): number | undefined => {
+  // MetaMask mobile wraps some errors (i.e. 4902) in data.originalError
+  const originalError = (
+    error.data as { originalError?: RawProviderError } | undefined
+  )?.originalError
+  return originalError?.code ?? error.code
+}
+
+/**
+ * Maps whatever a wallet rejected with onto the matching `WalletError` subclass.
+ */
+export const toWalletError = (error: unknown): WalletError => {
+  if (error instanceof WalletError) {
+    return error
+  }
+  const rawError: RawProviderError =
+    typeof error === "object" && error !== null
+      ? error
+      : { message: String(error) }
+  const code = getErrorCode(rawError)
+  const ErrorClass = code !== undefined ? ERROR_BY_CODE[code] : undefined
+  const options = { code, data: rawError.data }
+  return ErrorClass
+    ? new ErrorClass(rawError.message, options)
+    : new WalletError(
+        rawError.message ?? "There was a problem with the wallet request",
+        options,
+      )
+}
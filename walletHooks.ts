@@ -0,0 +1,173 @@
+import { useCallback, useEffect } from "react"
+import {
+  QueryKey,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "react-query"
+import { Buffer } from "safe-buffer"
+import { ChainData } from "../lib/chain/chain"
+import {
+  ProviderCapabilities,
+  TransactOptions,
+  TransactionId,
+} from "../lib/chain/provider"
+import { ProviderId } from "../lib/chain/providerRegistry"
+import { TrackerOptions } from "../lib/chain/transactionTracker"
+import { TypedData } from "../lib/chain/typedData"
+import Wallet, {
+  Account,
+  SignOptions,
+  SourcelessTransaction,
+} from "../lib/chain/wallet"
+import { BigNumber } from "../lib/helpers/numberUtils"
+import { useWallet } from "./WalletProvider.react"
+
+const WALLET_QUERY_KEY = "wallet"
+
+export type WalletQueryResult<T> = UseQueryResult<T, Error> & {
+  /** Clears the cached result and fetches it again */
+  reset: () => Promise<void>
+}
+
+export type SignMessageVariables = {
+  message: string | Buffer | TypedData
+  options?: SignOptions
+}
+
+export type SendTransactionVariables = {
+  transaction: SourcelessTransaction
+  options?: TransactOptions & TrackerOptions
+}
+
+const getWalletOrThrow = (wallet: Wallet | undefined): Wallet => {
+  if (!wallet) {
+    throw new Error("Wallet not initialized.")
+  }
+  return wallet
+}
+
+/**
+ * Shares the result across components through the react-query cache, refetching it whenever the wallet changes.
+ */
+const useWalletQuery = <T>(
+  queryKey: QueryKey,
+  queryFn: (wallet: Wallet) => T | Promise<T>,
+): WalletQueryResult<T> => {
+  const { wallet } = useWallet()
+  const queryClient = useQueryClient()
+  const key = [WALLET_QUERY_KEY, ...(queryKey as unknown[])]
+
+  const query = useQuery<T, Error>(
+    key,
+    () => queryFn(getWalletOrThrow(wallet)),
+    { enabled: !!wallet },
+  )
+
+  useEffect(
+    () =>
+      wallet?.onChange(() =>
+        queryClient.invalidateQueries(key, { exact: true }),
+      ),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [wallet, queryClient, JSON.stringify(key)],
+  )
+
+  const reset = useCallback(
+    () => queryClient.resetQueries(key, { exact: true }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [queryClient, JSON.stringify(key)],
+  )
+
+  return { ...query, reset }
+}
+
+export const useActiveAccount = (): WalletQueryResult<Account | null> =>
+  useWalletQuery(["activeAccount"], wallet => wallet.activeAccount ?? null)
+
+export const useAccounts = (): WalletQueryResult<ReadonlyArray<Account>> =>
+  useWalletQuery(["accounts"], wallet => wallet.accounts)
+
+/**
+ * @param address Defaults to the active account
+ */
+export const useNativeBalance = (
+  address?: string,
+): WalletQueryResult<BigNumber | null> => {
+  const { chain } = useWallet()
+  return useWalletQuery(["nativeBalance", chain, address], async wallet => {
+    const provider = await wallet.getProvider()
+    const balanceAddress = address ?? wallet.address
+    if (
+      !provider ||
+      !balanceAddress ||
+      !(await provider.getCapabilities()).readChain
+    ) {
+      return null
+    }
+    return provider.getBalance(balanceAddress)
+  })
+}
+
+/**
+ * What the active wallet supports, i.e. to hide the chain switcher when it cannot switch chains.
+ */
+export const useCapabilities =
+  (): WalletQueryResult<ProviderCapabilities | null> => {
+    const { chain } = useWallet()
+    return useWalletQuery(
+      ["capabilities", chain],
+      async wallet => (await wallet.getCapabilities()) ?? null,
+    )
+  }
+
+export const useSignMessage = () => {
+  const { wallet } = useWallet()
+  return useMutation<string, Error, SignMessageVariables>(
+    ({ message, options }) => getWalletOrThrow(wallet).sign(message, options),
+  )
+}
+
+export const useSignTypedData = () => {
+  const { wallet } = useWallet()
+  return useMutation<string, Error, SignMessageVariables>(
+    ({ message, options }) =>
+      getWalletOrThrow(wallet).signTypedData(message, options),
+  )
+}
+
+/**
+ * Resolves once the wallet accepted the transaction, follow it with `useTransactionStatus`.
+ */
+export const useSendTransaction = () => {
+  const { wallet } = useWallet()
+  const queryClient = useQueryClient()
+  return useMutation<TransactionId, Error, SendTransactionVariables>(
+    ({ transaction, options }) =>
+      getWalletOrThrow(wallet).transact(transaction, options),
+    {
+      onSuccess: () =>
+        queryClient.invalidateQueries([WALLET_QUERY_KEY, "nativeBalance"]),
+    },
+  )
+}
+
+export const useSwitchChain = () => {
+  const { wallet } = useWallet()
+  return useMutation<void, Error, ChainData>(async chainData => {
+    await getWalletOrThrow(wallet).switchChain(chainData)
+  })
+}
+
+/**
+ * @param walletName The id of a registration from `providerRegistry`
+ */
+export const useConnect = (walletName: ProviderId) => {
+  const { wallet } = useWallet()
+  const queryClient = useQueryClient()
+  return useMutation<void, Error, void>(
+    () => getWalletOrThrow(wallet).install(walletName),
+    { onSuccess: () => queryClient.invalidateQueries(WALLET_QUERY_KEY) },
+  )
+}
@@ -0,0 +1,57 @@
+import { AccountKey } from "./chain"
+import { registerProvider, unregisterProvider } from "./providerRegistry"
+import BrowserWeb3Provider from "./providers/browserWeb3Provider"
+import MockEip1193Provider, {
+  MockEip1193ProviderOptions,
+} from "./providers/mockEip1193Provider"
+import Wallet, { Account } from "./wallet"
+
+/** Registration id of the mock wallet, to pass to `Wallet.install` */
+export const MOCK_WALLET_ID = "mock"
+
+export type WalletHarness = {
+  /** Scripts the wallet and emits its events */
+  eip1193Provider: MockEip1193Provider
+  provider: BrowserWeb3Provider
+  wallet: Wallet
+  /** Installs the mock wallet, as if the user connected it */
+  connect: () => Promise<void>
+  /** Forgets the wallet and unregisters the mock, call it after each test */
+  cleanup: () => void
+}
+
+/**
+ * Test account without hitting the API, for `Wallet.getAccount` stubs.
+ */
+export const createTestAccount = ({
+  address,
+}: Pick<AccountKey, "address">): Account =>
+  ({ address, relayId: `Account:${address}` } as Account)
+
+/**
+ * A `Wallet` with a mock injected wallet registered under `MOCK_WALLET_ID`, i.e.
+ * `const { eip1193Provider, wallet, connect } = createWalletHarness({ accounts: [address], chainId: "0x1" })`.
+ * `Wallet.getAccount` queries the API, so stub it with `createTestAccount` first.
+ */
+export const createWalletHarness = (
+  options?: MockEip1193ProviderOptions,
+): WalletHarness => {
+  const eip1193Provider = new MockEip1193Provider(options)
+  const provider = new BrowserWeb3Provider(eip1193Provider)
+  registerProvider({
+    id: MOCK_WALLET_ID,
+    displayName: "Mock wallet",
+    load: async () => provider,
+  })
+  const wallet = new Wallet()
+  return {
+    eip1193Provider,
+    provider,
+    wallet,
+    connect: () => wallet.install(MOCK_WALLET_ID),
+    cleanup: () => {
+      wallet.clear()
+      unregisterProvider(MOCK_WALLET_ID)
+    },
+  }
+}
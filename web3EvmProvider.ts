@@ -1,19 +1,75 @@
 import { TypedDataUtils } from "eth-sig-util"
 import { bufferToHex } from "ethereumjs-util"
+import { compact } from "lodash"
 import { Buffer } from "safe-buffer"
-import Web3 from "web3"
 import { ChainData, AccountKey, readChainData, Address } from "lib/chain/chain"
 import { ClientSignatureStandard } from "lib/graphql/__generated__/trader_sign_and_post.graphql"
 import { BigNumber } from "lib/helpers/numberUtils"
-import { promisify0, promisify1 } from "lib/helpers/promise"
 import { ChainIdentifier } from "../../../constants"
-import JSONRPC from "../jsonrpc"
-import { CHAIN_IDENTIFIER_BY_NETWORK_ID, NetworkId } from "../networks/ethereum"
-import Provider, { Transaction, TransactionId } from "../provider"
+import {
+  Abi,
+  AbiFunction,
+  AbiValue,
+  decodeFunctionResult,
+  encodeFunctionData,
+} from "../abi"
+import { getChainConfigByChainId } from "../chainRegistry"
+import Provider, {
+  FeeStrategy,
+  ProviderCapabilities,
+  SignatureResult,
+  TransactOptions,
+  Transaction,
+  TransactionId,
+} from "../provider"
+import {
+  assertSignedBy,
+  SignedMessage,
+  verifyContractSignature,
+} from "../signatureVerification"
+import {
+  assertSimulationSucceeds,
+  simulateTransaction,
+} from "../transactionSimulation"
+import TransactionTracker, { TrackerOptions } from "../transactionTracker"
+import { serializeTypedData, TypedData, TypedDataStandard } from "../typedData"
 import { SignOptions } from "../wallet"
+import {
+  ChainNotAddedError,
+  InvalidParamsError,
+  SignerMismatchError,
+  toWalletError,
+  UnauthorizedError,
+  UnsupportedMethodError,
+  UserRejectedRequestError,
+  WalletError,
+} from "../walletErrors"
+import {
+  Eip1193Provider,
+  fromHexQuantity,
+  ProviderEvent,
+  toHexQuantity,
+  toRpcTransaction,
+} from "./eip1193"
+import { estimateFees } from "./transactionFees"
 
 type Method =
+  | "eth_accounts"
+  | "eth_blockNumber"
+  | "eth_call"
+  | "eth_chainId"
+  | "eth_estimateGas"
+  | "eth_feeHistory"
+  | "eth_gasPrice"
+  | "eth_getBalance"
+  | "eth_getBlockByNumber"
+  | "eth_getCode"
+  | "eth_getTransactionByHash"
+  | "eth_getTransactionCount"
+  | "eth_getTransactionReceipt"
   | "eth_requestAccounts"
+  | "eth_sendTransaction"
+  | "net_version"
   | "personal_sign"
   | "eth_signTypedData"
   | "eth_signTypedData_v1"
@@ -22,19 +78,12 @@ type Method =
   | "wallet_addEthereumChain"
   | "wallet_switchEthereumChain"
 
-type Event = "accountsChanged" | "chainChanged"
-
-// TODO: Upgrade web3
-type Web3Provider = Web3.Provider & {
-  off?: <T>(event: Event, handler: (value: T) => unknown) => void
-  on?: <T>(event: Event, handler: (value: T) => unknown) => void
-}
+export default abstract class Web3EvmProvider extends Provider {
+  abstract eip1193Provider: Eip1193Provider
 
-const USER_REJECTED_REQUEST_ERROR_CODE = 4001
-const UNADDED_CHAIN_ERROR_CODE = 4902
+  feeStrategy: FeeStrategy = "standard"
 
-export default abstract class Web3EvmProvider extends Provider {
-  abstract web3: Web3
+  private contractAccounts: Map<string, boolean> = new Map()
 
   async call({
     source,
@@ -45,19 +94,39 @@ export default abstract class Web3EvmProvider extends Provider {
   }): Promise<TransactionId> {
     const accounts = await this.getAccounts()
     if (!accounts.some(a => a.address === source)) {
-      throw new Error(`Not connected to account ${source}`)
+      throw new UnauthorizedError(`Not connected to account ${source}`)
     }
-    return promisify1(this.web3.eth.call)({
-      from: source,
-      to: destination,
-      data,
-    })
+    return this.request<string>("eth_call", [
+      { from: source, to: destination, data },
+      "latest",
+    ])
+  }
+
+  /**
+   * Calls a view function of `destination` from the connected account `source`, decoding its outputs.
+   */
+  async readContract(
+    item: AbiFunction,
+    args: ReadonlyArray<unknown>,
+    { source, destination }: { source: Address; destination: Address },
+  ): Promise<AbiValue[]> {
+    return decodeFunctionResult(
+      item,
+      await this.call({
+        source,
+        destination,
+        data: encodeFunctionData(item, args),
+      }),
+    )
   }
 
   async connect() {
     try {
       await this.request<Address[]>("eth_requestAccounts")
-    } catch (_) {
+    } catch (error) {
+      if (error instanceof UserRejectedRequestError) {
+        throw error
+      }
       console.info(`${this.getName()} does not support eth_requestAccounts`)
     }
   }
@@ -71,102 +140,247 @@ export default abstract class Web3EvmProvider extends Provider {
 
   getChain = async () => {
     try {
-      // @ts-expect-error HACK: Providers will inject window.ethereum and chainId can be retrieved like so.
-      // Not all providers will have this injected (i.e. TrustWallet), so we fallback to web3 library if not found
-      // This is a short term solution because Avalanche currently returns networkId as the same as Ethereum's
-      const windowEthereumChainId = window.ethereum?.chainId
-      const networkId = await promisify0(this.web3.version.getNetwork)()
-      return CHAIN_IDENTIFIER_BY_NETWORK_ID[
-        Number(windowEthereumChainId ?? networkId) as NetworkId
-      ]
+      return getChainConfigByChainId(await this.getChainId())?.identifier
     } catch (error) {
       console.error(error)
       return undefined
     }
   }
 
+  async getChainId(): Promise<string> {
+    try {
+      return await this.request<string>("eth_chainId")
+    } catch (_) {
+      // Legacy providers predating EIP-695 only expose the network id
+      return this.request<string>("net_version")
+    }
+  }
+
   async getAccounts(): Promise<AccountKey[]> {
-    const addresses = await promisify0(this.web3.eth.getAccounts)()
+    const addresses = await this.request<Address[]>("eth_accounts")
     return this.mapToAccounts(addresses)
   }
 
+  /**
+   * @throws WalletError when the wallet still authorizes addresses but is on a chain the registry does not know,
+   * which `getAccounts` cannot tell apart from an ended session
+   */
+  async restoreSession(): Promise<AccountKey[]> {
+    const addresses = await this.request<Address[]>("eth_accounts")
+    const accounts = await this.mapToAccounts(addresses)
+    if (addresses.length && !accounts.length) {
+      throw new WalletError(
+        `${this.getName()} is connected to an unsupported chain.`,
+      )
+    }
+    return accounts
+  }
+
   async getBalance(address: Address): Promise<BigNumber> {
-    return await promisify1(this.web3.eth.getBalance)(address)
+    return fromHexQuantity(
+      await this.request<string>("eth_getBalance", [address, "latest"]),
+    )
   }
 
-  getWeb3Provider(): Web3Provider {
-    return this.web3.currentProvider as Web3Provider
+  async getTransactionCount(address: Address): Promise<number> {
+    return Number(
+      await this.request<string>("eth_getTransactionCount", [
+        address,
+        "pending",
+      ]),
+    )
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  onEvent(event: Event, handler: (...args: any[]) => unknown): () => unknown {
-    const web3Provider = this.getWeb3Provider()
-    web3Provider.on?.(event, handler)
-    return () => web3Provider.off?.(event, handler)
+  onEvent(
+    event: ProviderEvent,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    handler: (...args: any[]) => unknown,
+  ): () => unknown {
+    const { eip1193Provider } = this
+    eip1193Provider.on?.(event, handler)
+    return () =>
+      (eip1193Provider.removeListener ?? eip1193Provider.off)?.call(
+        eip1193Provider,
+        event,
+        handler,
+      )
   }
 
   onAccountsChange(handler: (accounts: AccountKey[]) => unknown) {
-    return this.onEvent("accountsChanged", (addresses: Address[]) =>
-      this.mapToAccounts(addresses).then(handler),
-    )
+    return this.onEvent("accountsChanged", async (addresses: Address[]) => {
+      const accounts = await this.mapToAccounts(addresses)
+      // Still authorized on a chain the registry does not know, only no addresses means a disconnect
+      if (addresses.length && !accounts.length) {
+        return
+      }
+      handler(accounts)
+    })
   }
 
   onChainChange(handler: (chainIdentifier: ChainIdentifier) => unknown) {
-    return this.onEvent("chainChanged", (networkId: string) => {
-      const chainIdentifier =
-        CHAIN_IDENTIFIER_BY_NETWORK_ID[Number(networkId) as NetworkId]
-      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-      if (!chainIdentifier) {
-        throw new Error(`Unexpected chain id ${networkId}`)
+    return this.onEvent("chainChanged", (chainId: string) => {
+      const chainConfig = getChainConfigByChainId(chainId)
+      if (!chainConfig) {
+        throw new Error(`Unexpected chain id ${chainId}`)
       }
-      handler(chainIdentifier)
+      handler(chainConfig.identifier)
     })
   }
 
+  /**
+   * @throws WalletError subclass matching the EIP-1193 / JSON-RPC error code, i.e. `UserRejectedRequestError`
+   */
   async request<T>(method: Method, params: unknown[] = []): Promise<T> {
-    const web3Provider = this.getWeb3Provider()
-    return JSONRPC.request(
-      web3Provider.sendAsync.bind(web3Provider),
-      method,
-      params,
-    )
+    try {
+      return await this.eip1193Provider.request<T>({ method, params })
+    } catch (error) {
+      throw toWalletError(error)
+    }
+  }
+
+  /**
+   * Contract accounts, i.e. Safe or Argent, have code deployed at their address.
+   * Cached per chain, as this runs before every signature.
+   */
+  async isContractAccount(address: Address): Promise<boolean> {
+    const key = `${await this.getChainId()}:${address.toLowerCase()}`
+    const cached = this.contractAccounts.get(key)
+    if (cached !== undefined) {
+      return cached
+    }
+    const code = await this.request<string>("eth_getCode", [address, "latest"])
+    const isContract = !!code && code !== "0x" && code !== "0x0"
+    this.contractAccounts.set(key, isContract)
+    return isContract
+  }
+
+  async sign(
+    message: string | Buffer | TypedData,
+    address: string,
+    options?: SignOptions,
+  ) {
+    return (await this.signWithResult(message, address, options)).signature
+  }
+
+  async signTypedData(
+    message: string | TypedData,
+    address: string,
+    options?: SignOptions,
+  ) {
+    return (await this.signTypedDataWithResult(message, address, options))
+      .signature
+  }
+
+  /**
+   * Typed data objects are validated, including their domain chainId against the connected chain, then serialized for `standard`.
+   * JSON strings are passed through as is.
+   */
+  async prepareTypedData(
+    message: string | TypedData,
+    standard: TypedDataStandard,
+  ): Promise<string> {
+    if (typeof message === "string") {
+      return message
+    }
+    return serializeTypedData(message, standard, {
+      chainId: Number(await this.getChainId()),
+    })
   }
 
   /**
    * Allows cross-chain signing for 0x due to its support of personal signatures:
    * https://github.com/0xProject/protocol/blob/development/contracts/exchange/contracts/src/MixinSignatureValidator.sol#L323-L343
+   *
+   * Contract account signatures are returned as is, validated through EIP-1271 with `verifySigner`.
+   * Personal messages are utf8 text or raw bytes.
    */
-  async sign(message: string, address: string, options?: SignOptions) {
+  async signWithResult(
+    message: string | Buffer | TypedData,
+    address: string,
+    options?: SignOptions,
+  ): Promise<SignatureResult> {
     const clientSignatureStandard =
       options?.clientSignatureStandard ?? "PERSONAL"
 
     const isTyped = clientSignatureStandard !== "PERSONAL"
 
-    const hexMessage = bufferToHex(new Buffer(message, "utf8"))
+    const isBytes = Buffer.isBuffer(message)
+
+    if (!isTyped && !isBytes && typeof message !== "string") {
+      throw new InvalidParamsError(
+        "Typed data objects need a typed client signature standard.",
+      )
+    }
+
+    // The typed data hash is always computed the v4 way
+    const typedDataHash = isTyped
+      ? TypedDataUtils.sign(
+          TypedDataUtils.sanitizeData(
+            JSON.parse(
+              await this.prepareTypedData(
+                isBytes ? message.toString("utf8") : message,
+                "TYPED_DATA_V4",
+              ),
+            ),
+          ),
+          true,
+        )
+      : undefined
+
+    const personalMessage = typedDataHash ?? (message as string | Buffer)
+
+    const hexMessage = bufferToHex(
+      typeof personalMessage === "string"
+        ? Buffer.from(personalMessage, "utf8")
+        : personalMessage,
+    )
+
+    const isContract = await this.isContractAccount(address)
 
     const signature = await this.request<string>("personal_sign", [
-      isTyped
-        ? `0x${TypedDataUtils.sign(
-            TypedDataUtils.sanitizeData(JSON.parse(message)),
-            true,
-          ).toString("hex")}`
-        : hexMessage,
+      hexMessage,
       address,
     ])
 
-    return `${isTyped ? this._reorderSignatureRsvToVrs(signature) : signature}${
-      isTyped ? "03" : "" // 03: EthSign
-    }`
+    const signedMessage: SignedMessage = {
+      message: personalMessage,
+      signature,
+      standard: "PERSONAL",
+    }
+
+    if (isContract) {
+      if (options?.verifySigner) {
+        await this.assertValidContractSignature(address, signedMessage)
+      }
+      return { signature, signerType: "CONTRACT" }
+    }
+
+    if (options?.verifySigner) {
+      assertSignedBy(address, signedMessage)
+    }
+
+    return {
+      signature: `${
+        isTyped ? this._reorderSignatureRsvToVrs(signature) : signature
+      }${
+        isTyped ? "03" : "" // 03: EthSign
+      }`,
+      signerType: "EOA",
+    }
   }
 
-  async signTypedData(message: string, address: string, options?: SignOptions) {
+  async signTypedDataWithResult(
+    message: string | TypedData,
+    address: string,
+    options?: SignOptions,
+  ): Promise<SignatureResult> {
     const clientSignatureStandard =
       options?.clientSignatureStandard ?? "TYPED_DATA_V4"
 
     const typedStandards = ["TYPED_DATA_V1", "TYPED_DATA_V3", "TYPED_DATA_V4"]
 
     if (!typedStandards.includes(clientSignatureStandard)) {
-      throw new Error(
+      throw new UnsupportedMethodError(
         `Unsupported client signature standard for signing typed data.`,
       )
     }
@@ -179,39 +393,160 @@ export default abstract class Web3EvmProvider extends Provider {
       "%future added value": "personal_sign",
     }
 
+    const standard = clientSignatureStandard as TypedDataStandard
+
+    const serializedMessage = await this.prepareTypedData(message, standard)
+
+    const isContract = await this.isContractAccount(address)
+
     const signature = await this.request<string>(
       signatureToMethod[clientSignatureStandard],
-      [address, message],
+      [address, serializedMessage],
     )
 
+    const signedMessage: SignedMessage = {
+      message: serializedMessage,
+      signature,
+      standard,
+    }
+
+    if (isContract) {
+      if (options?.verifySigner) {
+        await this.assertValidContractSignature(address, signedMessage)
+      }
+      return { signature, signerType: "CONTRACT" }
+    }
+
+    if (options?.verifySigner) {
+      assertSignedBy(address, signedMessage)
+    }
+
     // The 02 denotes EIP-712, used for 0x.
     // https://github.com/0xProject/0x-protocol-specification/blob/master/v3/v3-specification.md#signature-types
-    return this._reorderSignatureRsvToVrs(signature)
+    return {
+      signature: this._reorderSignatureRsvToVrs(signature),
+      signerType: "EOA",
+    }
   }
 
-  async transact({
-    source,
-    destination,
-    value,
-    data,
-  }: Transaction & {
-    source: NonNullable<Transaction["source"]>
-  }): Promise<TransactionId> {
+  /**
+   * @throws SignerMismatchError if the contract account does not return the EIP-1271 magic value
+   */
+  async assertValidContractSignature(
+    address: string,
+    signedMessage: SignedMessage,
+  ): Promise<void> {
+    const isValid = await verifyContractSignature(
+      data => this.call({ source: address, destination: address, data }),
+      { ...signedMessage, address },
+    )
+    if (!isValid) {
+      throw new SignerMismatchError(address)
+    }
+  }
+
+  /**
+   * Fills in `gas` and fee fields the caller left out, according to `feeStrategy`.
+   * Transactions setting `gasPrice` are kept legacy, otherwise EIP-1559 fees are used when the chain supports them.
+   * A missing `maxFeePerGas` or `maxPriorityFeePerGas` is estimated alongside the one given.
+   * @throws InvalidParamsError when EIP-1559 fees are given for a chain that only supports `gasPrice`
+   */
+  async populateTransaction<T extends Transaction>(transaction: T): Promise<T> {
+    const { source, destination, value, data } = transaction
+    const gas =
+      transaction.gas ??
+      fromHexQuantity(
+        await this.request<string>("eth_estimateGas", [
+          toRpcTransaction({ source, destination, value, data }),
+        ]),
+      )
+
+    const hasFees =
+      transaction.gasPrice !== undefined ||
+      (transaction.maxFeePerGas !== undefined &&
+        transaction.maxPriorityFeePerGas !== undefined)
+    if (hasFees) {
+      return { ...transaction, gas }
+    }
+
+    const fees = await estimateFees(this.request.bind(this), this.feeStrategy)
+    if ("gasPrice" in fees) {
+      if (
+        transaction.maxFeePerGas !== undefined ||
+        transaction.maxPriorityFeePerGas !== undefined
+      ) {
+        throw new InvalidParamsError(
+          "The chain does not support EIP-1559 fees, set gasPrice or leave the fees out.",
+        )
+      }
+      return { ...transaction, gas, ...fees }
+    }
+    const maxFeePerGas = transaction.maxFeePerGas ?? fees.maxFeePerGas
+    const maxPriorityFeePerGas =
+      transaction.maxPriorityFeePerGas ?? fees.maxPriorityFeePerGas
+    return {
+      ...transaction,
+      gas,
+      maxFeePerGas,
+      maxPriorityFeePerGas: maxPriorityFeePerGas.gt(maxFeePerGas)
+        ? maxFeePerGas
+        : maxPriorityFeePerGas,
+    }
+  }
+
+  simulate(transaction: Transaction, abi?: Abi) {
+    return simulateTransaction(this.request.bind(this), transaction, abi)
+  }
+
+  async transact(
+    transaction: Transaction & {
+      source: NonNullable<Transaction["source"]>
+    },
+    { simulate, abi }: TransactOptions = {},
+  ): Promise<TransactionId> {
+    const { source } = transaction
     const accounts = await this.getAccounts()
     if (!accounts.some(a => a.address === source)) {
-      throw new Error(`Not connected to account ${source}`)
+      throw new UnauthorizedError(`Not connected to account ${source}`)
+    }
+    const estimatedGas = simulate
+      ? await assertSimulationSucceeds(
+          this.request.bind(this),
+          transaction,
+          abi,
+        )
+      : undefined
+    const gas = transaction.gas ?? estimatedGas
+    return this.request<TransactionId>("eth_sendTransaction", [
+      toRpcTransaction(await this.populateTransaction({ ...transaction, gas })),
+    ])
+  }
+
+  async getCapabilities(): Promise<ProviderCapabilities> {
+    return {
+      switchChain: true,
+      addChain: true,
+      typedDataStandards: ["TYPED_DATA_V1", "TYPED_DATA_V3", "TYPED_DATA_V4"],
+      disconnect: false,
+      readChain: true,
+      transactionQueue: true,
     }
-    return promisify1(this.web3.eth.sendTransaction)({
-      from: source,
-      to: destination,
-      value,
-      data,
-    })
+  }
+
+  trackTransaction(
+    transactionId: TransactionId,
+    options?: TrackerOptions,
+  ): TransactionTracker {
+    return new TransactionTracker(
+      this.request.bind(this),
+      transactionId,
+      options,
+    )
   }
 
   _reorderSignatureRsvToVrs(signature: string) {
     if (signature.length !== 132) {
-      throw new Error(
+      throw new WalletError(
         "Expect signature to be a hex thing with a total length of 132 characters (including the '0x' prefix)",
       )
     }
@@ -228,44 +563,41 @@ export default abstract class Web3EvmProvider extends Provider {
     return `0x${vrs.v}${vrs.r}${vrs.s}`
   }
 
+  /**
+   * Chains the chain registry has RPC urls for are added with its config, others with the API chain data.
+   */
   switchChain = async (chainData: ChainData) => {
-    const {
-      blockExplorerUrl,
-      displayName,
-      publicRpcUrl,
-      networkId,
-      nativeCurrency,
-    } = readChainData(chainData)
+    const { networkId, ...apiChainData } = readChainData(chainData)
 
     if (!networkId) {
       throw Error("Chain network ID was not found")
     }
 
-    const chainId = this.web3.toHex(networkId)
+    const chainConfig = getChainConfigByChainId(networkId)
+    const chainId = toHexQuantity(networkId)
     try {
       await this.request("wallet_switchEthereumChain", [{ chainId }])
     } catch (switchError) {
-      switch (switchError.code) {
-        case UNADDED_CHAIN_ERROR_CODE:
-          try {
-            await this.request("wallet_addEthereumChain", [
-              {
-                chainId,
-                rpcUrls: [publicRpcUrl],
-                chainName: displayName,
-                nativeCurrency,
-                blockExplorerUrls: [blockExplorerUrl],
-              },
-            ])
-          } catch (error) {
-            throw Error("There was a problem adding the network")
-          }
-          break
-        case USER_REJECTED_REQUEST_ERROR_CODE:
-          break
-        default:
-          throw Error("There was a problem switching the network")
+      if (!(switchError instanceof ChainNotAddedError)) {
+        throw switchError
       }
+      await this.request("wallet_addEthereumChain", [
+        chainConfig?.rpcUrls.length && chainConfig.nativeCurrency
+          ? {
+              chainId,
+              rpcUrls: chainConfig.rpcUrls,
+              chainName: chainConfig.displayName,
+              nativeCurrency: chainConfig.nativeCurrency,
+              blockExplorerUrls: compact([chainConfig.blockExplorerUrl]),
+            }
+          : {
+              chainId,
+              rpcUrls: [apiChainData.publicRpcUrl],
+              chainName: apiChainData.displayName,
+              nativeCurrency: apiChainData.nativeCurrency,
+              blockExplorerUrls: [apiChainData.blockExplorerUrl],
+            },
+      ])
     }
   }
 }